@@ -1,54 +1,52 @@
-import { Switch, Route } from "wouter";
-import { queryClient } from "./lib/queryClient";
+import { Switch, Route, useLocation } from "wouter";
+import { getQueryFn, queryClient } from "./lib/queryClient";
 import { QueryClientProvider } from "@tanstack/react-query";
 import { Toaster } from "@/components/ui/toaster";
 import { TooltipProvider } from "@/components/ui/tooltip";
 import { AuthProvider, useAuth } from "@/components/auth/AuthProvider";
 import { LoginModal } from "@/components/auth/LoginModal";
+import { ChangePasswordModal } from "@/components/auth/ChangePasswordModal";
+import { TwoFactorSetupModal } from "@/components/auth/TwoFactorSetup";
 import { Dashboard } from "@/pages/Dashboard";
 import { Machines } from "@/pages/Machines";
 import { Panels } from "@/pages/Panels";
 import { Serials } from "@/pages/Serials";
 import { OrderDetail } from "@/pages/OrderDetail";
+import { Users } from "@/pages/Users";
+import { Audit } from "@/pages/Audit";
+import { ResetPassword } from "@/pages/ResetPassword";
 import NotFound from "@/pages/not-found";
 
-// Set up API request interceptor to include auth token
+// Set up API request interceptor to include auth token. An expired access
+// token is refreshed by authService; if the session is gone for good it signs
+// the user out and AuthProvider shows the login screen.
 queryClient.setDefaultOptions({
   queries: {
-    queryFn: async ({ queryKey }) => {
-      const token = localStorage.getItem('auth_token');
-      const headers: Record<string, string> = {};
-      
-      if (token) {
-        headers['Authorization'] = `Bearer ${token}`;
-      }
-      
-      const res = await fetch(queryKey.join("/") as string, {
-        headers,
-        credentials: "include",
-      });
-
-      if (!res.ok) {
-        if (res.status === 401) {
-          localStorage.removeItem('auth_token');
-          window.location.reload();
-        }
-        const text = (await res.text()) || res.statusText;
-        throw new Error(`${res.status}: ${text}`);
-      }
-      
-      return await res.json();
-    },
+    queryFn: getQueryFn({ on401: "throw" }),
   },
 });
 
 function Router() {
-  const { isAuthenticated } = useAuth();
+  const { isAuthenticated, user } = useAuth();
+  const [location] = useLocation();
+
+  // Reset links are opened from an email, usually while signed out.
+  if (location === "/reset-password") {
+    return <ResetPassword />;
+  }
 
   if (!isAuthenticated) {
     return <LoginModal />;
   }
 
+  if (user?.mustChangePassword) {
+    return <ChangePasswordModal />;
+  }
+
+  if (user?.twoFactorSetupRequired) {
+    return <TwoFactorSetupModal />;
+  }
+
   return (
     <Switch>
       <Route path="/" component={Dashboard} />
@@ -56,6 +54,8 @@ function Router() {
       <Route path="/panels" component={Panels} />
       <Route path="/serials" component={Serials} />
       <Route path="/order/:orderId" component={OrderDetail} />
+      <Route path="/users" component={Users} />
+      <Route path="/audit" component={Audit} />
       <Route component={NotFound} />
     </Switch>
   );
@@ -0,0 +1,66 @@
+import { Badge } from "@/components/ui/badge";
+import type { AuditAction, AuditEventWithActor } from "@shared/schema";
+
+export const AUDIT_ACTION_LABELS: Record<AuditAction, string> = {
+  create: "Created",
+  update: "Updated",
+  delete: "Deleted",
+};
+
+const ACTION_VARIANTS: Record<AuditAction, "default" | "secondary" | "destructive"> = {
+  create: "default",
+  update: "secondary",
+  delete: "destructive",
+};
+
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}/;
+
+// "progressStatus" -> "Progress status"
+function fieldLabel(field: string): string {
+  const words = field.replace(/([A-Z])/g, " $1").toLowerCase();
+  return words.charAt(0).toUpperCase() + words.slice(1);
+}
+
+function formatValue(value: unknown): string {
+  if (value === null || value === undefined || value === "") return "—";
+  if (typeof value === "boolean") return value ? "Yes" : "No";
+  if (typeof value === "string") return ISO_DATE.test(value) ? new Date(value).toLocaleString() : value;
+  if (typeof value === "number") return value.toString();
+  return JSON.stringify(value);
+}
+
+export function AuditActionBadge({ action }: { action: AuditAction }) {
+  return <Badge variant={ACTION_VARIANTS[action]}>{AUDIT_ACTION_LABELS[action]}</Badge>;
+}
+
+// The fields an event changed. Creations only show the new values and
+// deletions only the old ones.
+export function AuditChanges({ event }: { event: AuditEventWithActor }) {
+  const fields = Object.entries(event.changes);
+  if (fields.length === 0) {
+    return <span className="text-sm text-slate-500">No details</span>;
+  }
+
+  return (
+    <dl className="space-y-1 text-sm">
+      {fields.map(([field, { from, to }]) => (
+        <div key={field} className="flex flex-wrap gap-x-2">
+          <dt className="font-medium text-slate-700">{fieldLabel(field)}:</dt>
+          <dd className="text-slate-600 break-all">
+            {event.action !== "create" && (
+              <span className={event.action === "update" ? "line-through text-slate-400" : undefined}>
+                {formatValue(from)}
+              </span>
+            )}
+            {event.action === "update" && " → "}
+            {event.action !== "delete" && <span>{formatValue(to)}</span>}
+          </dd>
+        </div>
+      ))}
+    </dl>
+  );
+}
+
+export function auditActorName(event: AuditEventWithActor): string {
+  return event.actor?.username ?? "System";
+}
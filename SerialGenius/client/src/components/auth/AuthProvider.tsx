@@ -1,20 +1,25 @@
 import { createContext, useContext, useEffect, useState } from "react";
-import { User } from "@shared/schema";
+import type { CurrentUser, Permission, TwoFactorChallenge } from "@shared/schema";
 import { authService } from "@/lib/auth";
 
 interface AuthContextType {
-  user: Omit<User, 'password'> | null;
+  user: CurrentUser | null;
   isAuthenticated: boolean;
-  isAdmin: boolean;
-  login: (username: string, password: string) => Promise<void>;
+  // Whether the signed-in user's role grants the permission.
+  can: (permission: Permission) => boolean;
+  // Resolves to a challenge when the user still has to enter a two-factor code.
+  login: (username: string, password: string) => Promise<TwoFactorChallenge | null>;
+  verifyTwoFactor: (challengeToken: string, code: string) => Promise<void>;
   logout: () => Promise<void>;
+  // Reloads the signed-in user, e.g. after they changed their password.
+  refreshUser: () => Promise<void>;
   loading: boolean;
 }
 
 const AuthContext = createContext<AuthContextType | null>(null);
 
 export function AuthProvider({ children }: { children: React.ReactNode }) {
-  const [user, setUser] = useState<Omit<User, 'password'> | null>(null);
+  const [user, setUser] = useState<CurrentUser | null>(null);
   const [loading, setLoading] = useState(true);
 
   useEffect(() => {
@@ -32,13 +37,20 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
     initAuth();
   }, []);
 
+  useEffect(() => authService.onSessionEnded(() => setUser(null)), []);
+
   const login = async (username: string, password: string) => {
-    try {
-      const response = await authService.login(username, password);
-      setUser(response.user);
-    } catch (error) {
-      throw error;
+    const response = await authService.login(username, password);
+    if ('twoFactorRequired' in response) {
+      return response;
     }
+    setUser(response.user);
+    return null;
+  };
+
+  const verifyTwoFactor = async (challengeToken: string, code: string) => {
+    const response = await authService.verifyTwoFactor(challengeToken, code);
+    setUser(response.user);
   };
 
   const logout = async () => {
@@ -46,12 +58,18 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
     setUser(null);
   };
 
+  const refreshUser = async () => {
+    setUser(await authService.getCurrentUser());
+  };
+
   const value: AuthContextType = {
     user,
     isAuthenticated: !!user,
-    isAdmin: user?.role === 'Admin',
+    can: (permission) => user?.permissions.includes(permission) ?? false,
     login,
+    verifyTwoFactor,
     logout,
+    refreshUser,
     loading,
   };
 
@@ -0,0 +1,136 @@
+import { useMutation } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { KeyRound } from "lucide-react";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "./AuthProvider";
+import { changePasswordSchema } from "@shared/schema";
+
+const changePasswordFormSchema = changePasswordSchema.extend({
+  confirmPassword: z.string(),
+}).refine(data => data.newPassword === data.confirmPassword, {
+  message: "Passwords don't match",
+  path: ["confirmPassword"],
+});
+type ChangePasswordFormData = z.infer<typeof changePasswordFormSchema>;
+
+interface ChangePasswordFormProps {
+  onDone?: () => void;
+}
+
+export function ChangePasswordForm({ onDone }: ChangePasswordFormProps) {
+  const { refreshUser } = useAuth();
+  const { toast } = useToast();
+
+  const form = useForm<ChangePasswordFormData>({
+    resolver: zodResolver(changePasswordFormSchema),
+    defaultValues: {
+      currentPassword: "",
+      newPassword: "",
+      confirmPassword: "",
+    },
+  });
+
+  const changePasswordMutation = useMutation({
+    mutationFn: async ({ currentPassword, newPassword }: ChangePasswordFormData) => {
+      await apiRequest("POST", "/api/auth/password", { currentPassword, newPassword });
+    },
+    onSuccess: async () => {
+      toast({ title: "Password changed successfully" });
+      form.reset();
+      await refreshUser();
+      onDone?.();
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to change password",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <Form {...form}>
+      <form onSubmit={form.handleSubmit((data) => changePasswordMutation.mutate(data))} className="space-y-4">
+        <FormField
+          control={form.control}
+          name="currentPassword"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Current Password</FormLabel>
+              <FormControl>
+                <Input type="password" autoComplete="current-password" {...field} />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        <FormField
+          control={form.control}
+          name="newPassword"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>New Password</FormLabel>
+              <FormControl>
+                <Input type="password" autoComplete="new-password" {...field} />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        <FormField
+          control={form.control}
+          name="confirmPassword"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Confirm New Password</FormLabel>
+              <FormControl>
+                <Input type="password" autoComplete="new-password" {...field} />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        <Button type="submit" className="w-full" disabled={changePasswordMutation.isPending}>
+          {changePasswordMutation.isPending ? "Saving..." : "Change Password"}
+        </Button>
+      </form>
+    </Form>
+  );
+}
+
+// Shown instead of the app while an admin requires the user to pick a new
+// password; the server refuses everything else until they do.
+export function ChangePasswordModal() {
+  const { logout } = useAuth();
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <Card className="w-full max-w-md mx-4">
+        <CardHeader className="text-center">
+          <div className="w-16 h-16 bg-primary rounded-xl flex items-center justify-center mx-auto mb-4">
+            <KeyRound className="text-white text-2xl" size={32} />
+          </div>
+          <CardTitle className="text-2xl">Choose a New Password</CardTitle>
+          <CardDescription>You need to change your password before continuing</CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <ChangePasswordForm />
+          <Button variant="ghost" className="w-full" onClick={logout}>
+            Sign out
+          </Button>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
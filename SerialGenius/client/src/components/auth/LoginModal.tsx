@@ -5,25 +5,41 @@ import { Label } from "@/components/ui/label";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { AlertCircle, Barcode } from "lucide-react";
 import { useAuth } from "./AuthProvider";
+import { TwoFactorCodeInput } from "./TwoFactorCodeInput";
 import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
 
 export function LoginModal() {
   const [username, setUsername] = useState("");
   const [password, setPassword] = useState("");
   const [loading, setLoading] = useState(false);
-  const { login } = useAuth();
+  const [resetMode, setResetMode] = useState(false);
+  const [resetLogin, setResetLogin] = useState("");
+  const [resetSent, setResetSent] = useState(false);
+  // Set once the password checks out for a user with two-factor on.
+  const [challengeToken, setChallengeToken] = useState<string | null>(null);
+  const [code, setCode] = useState("");
+  const { login, verifyTwoFactor } = useAuth();
   const { toast } = useToast();
 
+  const welcome = () => {
+    toast({
+      title: "Login successful",
+      description: "Welcome to Serial Number Generator",
+    });
+  };
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     setLoading(true);
 
     try {
-      await login(username, password);
-      toast({
-        title: "Login successful",
-        description: "Welcome to Serial Number Generator",
-      });
+      const challenge = await login(username, password);
+      if (challenge) {
+        setChallengeToken(challenge.challengeToken);
+      } else {
+        welcome();
+      }
     } catch (error) {
       toast({
         title: "Login failed",
@@ -35,6 +51,55 @@ export function LoginModal() {
     }
   };
 
+  const handleVerify = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setLoading(true);
+
+    try {
+      await verifyTwoFactor(challengeToken!, code);
+      welcome();
+    } catch (error) {
+      setCode("");
+      toast({
+        title: "Verification failed",
+        description: error instanceof Error ? error.message : "Invalid code",
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const leaveTwoFactor = () => {
+    setChallengeToken(null);
+    setCode("");
+    setPassword("");
+  };
+
+  const handleResetRequest = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setLoading(true);
+
+    try {
+      await apiRequest("POST", "/api/auth/password-reset/request", { login: resetLogin });
+      setResetSent(true);
+    } catch (error) {
+      toast({
+        title: "Couldn't request a reset",
+        description: error instanceof Error ? error.message : "Please try again",
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const leaveResetMode = () => {
+    setResetMode(false);
+    setResetSent(false);
+    setResetLogin("");
+  };
+
   return (
     <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
       <Card className="w-full max-w-md mx-4">
@@ -43,9 +108,57 @@ export function LoginModal() {
             <Barcode className="text-white text-2xl" size={32} />
           </div>
           <CardTitle className="text-2xl">Serial Number Generator</CardTitle>
-          <CardDescription>Sign in to manage your orders and inventory</CardDescription>
+          <CardDescription>
+            {resetMode
+              ? "Reset your password"
+              : challengeToken
+                ? "Enter the code from your authenticator app"
+                : "Sign in to manage your orders and inventory"}
+          </CardDescription>
         </CardHeader>
         <CardContent>
+          {resetMode ? (
+            resetSent ? (
+              <div className="space-y-6">
+                <p className="text-sm text-slate-600">
+                  If an account matches, we've emailed it a link to choose a new password. The link expires in an hour.
+                </p>
+                <Button type="button" className="w-full" onClick={leaveResetMode}>
+                  Back to sign in
+                </Button>
+              </div>
+            ) : (
+              <form onSubmit={handleResetRequest} className="space-y-6">
+                <div className="space-y-2">
+                  <Label htmlFor="reset-login">Username or email</Label>
+                  <Input
+                    id="reset-login"
+                    type="text"
+                    placeholder="Enter your username or email"
+                    value={resetLogin}
+                    onChange={(e) => setResetLogin(e.target.value)}
+                    required
+                  />
+                </div>
+                <Button type="submit" className="w-full" disabled={loading}>
+                  {loading ? "Sending..." : "Send reset link"}
+                </Button>
+                <Button type="button" variant="ghost" className="w-full" onClick={leaveResetMode}>
+                  Back to sign in
+                </Button>
+              </form>
+            )
+          ) : challengeToken ? (
+            <form onSubmit={handleVerify} className="space-y-6">
+              <TwoFactorCodeInput value={code} onChange={setCode} allowRecoveryCode />
+              <Button type="submit" className="w-full" disabled={loading || !code}>
+                {loading ? "Verifying..." : "Verify"}
+              </Button>
+              <Button type="button" variant="ghost" className="w-full" onClick={leaveTwoFactor}>
+                Back to sign in
+              </Button>
+            </form>
+          ) : (
           <form onSubmit={handleSubmit} className="space-y-6">
             <div className="space-y-2">
               <Label htmlFor="username">Username</Label>
@@ -72,7 +185,15 @@ export function LoginModal() {
             <Button type="submit" className="w-full" disabled={loading}>
               {loading ? "Signing in..." : "Sign In"}
             </Button>
+            <button
+              type="button"
+              className="w-full text-sm text-slate-600 hover:text-slate-900"
+              onClick={() => setResetMode(true)}
+            >
+              Forgot your password?
+            </button>
           </form>
+          )}
           
 {/*           <div className="mt-6 pt-6 border-t border-slate-200">
             <div className="text-sm text-slate-600 text-center space-y-2">
@@ -0,0 +1,53 @@
+import { useState } from "react";
+import { Input } from "@/components/ui/input";
+import { InputOTP, InputOTPGroup, InputOTPSlot } from "@/components/ui/input-otp";
+
+interface TwoFactorCodeInputProps {
+  value: string;
+  onChange: (value: string) => void;
+  // Offers a switch to typing one of the user's recovery codes instead.
+  allowRecoveryCode?: boolean;
+}
+
+export function TwoFactorCodeInput({ value, onChange, allowRecoveryCode = false }: TwoFactorCodeInputProps) {
+  const [recoveryMode, setRecoveryMode] = useState(false);
+
+  const toggleRecoveryMode = () => {
+    setRecoveryMode(!recoveryMode);
+    onChange("");
+  };
+
+  return (
+    <div className="space-y-2">
+      {recoveryMode ? (
+        <Input
+          type="text"
+          placeholder="xxxxx-xxxxx"
+          autoComplete="off"
+          value={value}
+          onChange={(e) => onChange(e.target.value)}
+          autoFocus
+        />
+      ) : (
+        <div className="flex justify-center">
+          <InputOTP maxLength={6} value={value} onChange={onChange} autoComplete="one-time-code" autoFocus>
+            <InputOTPGroup>
+              {Array.from({ length: 6 }, (_, index) => (
+                <InputOTPSlot key={index} index={index} />
+              ))}
+            </InputOTPGroup>
+          </InputOTP>
+        </div>
+      )}
+      {allowRecoveryCode && (
+        <button
+          type="button"
+          className="w-full text-sm text-slate-600 hover:text-slate-900"
+          onClick={toggleRecoveryMode}
+        >
+          {recoveryMode ? "Use your authenticator app" : "Use a recovery code"}
+        </button>
+      )}
+    </div>
+  );
+}
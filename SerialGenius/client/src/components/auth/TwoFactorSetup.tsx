@@ -0,0 +1,276 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { ShieldCheck } from "lucide-react";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "./AuthProvider";
+import { TwoFactorCodeInput } from "./TwoFactorCodeInput";
+import type { TwoFactorSetup } from "@shared/schema";
+
+interface TwoFactorStatus {
+  enabled: boolean;
+  required: boolean;
+  recoveryCodesRemaining: number;
+}
+
+interface RecoveryCodesListProps {
+  codes: string[];
+  onDone: () => void;
+}
+
+// Recovery codes are only ever shown once, so the user has to confirm they
+// kept them before moving on.
+function RecoveryCodesList({ codes, onDone }: RecoveryCodesListProps) {
+  return (
+    <div className="space-y-4">
+      <p className="text-sm text-slate-600">
+        Keep these recovery codes somewhere safe. Each one signs you in once if you lose your authenticator app.
+      </p>
+      <div className="grid grid-cols-2 gap-2 p-3 bg-slate-50 rounded-lg font-mono text-sm text-center">
+        {codes.map((code) => (
+          <span key={code}>{code}</span>
+        ))}
+      </div>
+      <Button className="w-full" onClick={onDone}>
+        I've saved my recovery codes
+      </Button>
+    </div>
+  );
+}
+
+interface TwoFactorSetupFormProps {
+  onDone?: () => void;
+}
+
+export function TwoFactorSetupForm({ onDone }: TwoFactorSetupFormProps) {
+  const [code, setCode] = useState("");
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null);
+  const { refreshUser } = useAuth();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const setupMutation = useMutation({
+    mutationFn: async (): Promise<TwoFactorSetup> => {
+      const response = await apiRequest("POST", "/api/auth/2fa/setup");
+      return response.json();
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to start two-factor setup",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const enableMutation = useMutation({
+    mutationFn: async (): Promise<{ recoveryCodes: string[] }> => {
+      const response = await apiRequest("POST", "/api/auth/2fa/enable", { code });
+      return response.json();
+    },
+    onSuccess: (data) => {
+      setRecoveryCodes(data.recoveryCodes);
+      queryClient.invalidateQueries({ queryKey: ["/api/auth/2fa"] });
+      toast({ title: "Two-factor authentication enabled" });
+    },
+    onError: (error: Error) => {
+      setCode("");
+      toast({
+        title: "Failed to enable two-factor authentication",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const finish = async () => {
+    await refreshUser();
+    onDone?.();
+  };
+
+  if (recoveryCodes) {
+    return <RecoveryCodesList codes={recoveryCodes} onDone={finish} />;
+  }
+
+  const setup = setupMutation.data;
+  if (!setup) {
+    return (
+      <div className="space-y-4">
+        <p className="text-sm text-slate-600">
+          You'll need an authenticator app such as Google Authenticator, 1Password or Authy.
+        </p>
+        <Button className="w-full" onClick={() => setupMutation.mutate()} disabled={setupMutation.isPending}>
+          {setupMutation.isPending ? "Starting..." : "Set up authenticator app"}
+        </Button>
+      </div>
+    );
+  }
+
+  return (
+    <form
+      onSubmit={(e) => {
+        e.preventDefault();
+        enableMutation.mutate();
+      }}
+      className="space-y-4"
+    >
+      <p className="text-sm text-slate-600">
+        Scan this QR code with your authenticator app, then enter the 6-digit code it shows.
+      </p>
+      <img src={setup.qrCode} alt="Two-factor QR code" className="mx-auto w-48 h-48" />
+      <p className="text-xs text-slate-500 text-center break-all">
+        Can't scan it? Enter this key instead: <span className="font-mono">{setup.secret}</span>
+      </p>
+      <TwoFactorCodeInput value={code} onChange={setCode} />
+      <Button type="submit" className="w-full" disabled={enableMutation.isPending || code.length < 6}>
+        {enableMutation.isPending ? "Verifying..." : "Enable"}
+      </Button>
+    </form>
+  );
+}
+
+// Shown instead of the app while the user's role requires two-factor and
+// they haven't set it up; the server refuses everything else until they do.
+export function TwoFactorSetupModal() {
+  const { logout } = useAuth();
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <Card className="w-full max-w-md mx-4">
+        <CardHeader className="text-center">
+          <div className="w-16 h-16 bg-primary rounded-xl flex items-center justify-center mx-auto mb-4">
+            <ShieldCheck className="text-white text-2xl" size={32} />
+          </div>
+          <CardTitle className="text-2xl">Set Up Two-Factor Authentication</CardTitle>
+          <CardDescription>Your role requires two-factor authentication before continuing</CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <TwoFactorSetupForm />
+          <Button variant="ghost" className="w-full" onClick={logout}>
+            Sign out
+          </Button>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
+
+interface TwoFactorSettingsDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+// Lets users turn two-factor on or off and replace their recovery codes.
+// Turning it off or replacing codes needs a current code.
+export function TwoFactorSettingsDialog({ open, onOpenChange }: TwoFactorSettingsDialogProps) {
+  const [code, setCode] = useState("");
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null);
+  const { refreshUser } = useAuth();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: status, isLoading } = useQuery<TwoFactorStatus>({
+    queryKey: ["/api/auth/2fa"],
+    enabled: open,
+  });
+
+  const regenerateMutation = useMutation({
+    mutationFn: async (): Promise<{ recoveryCodes: string[] }> => {
+      const response = await apiRequest("POST", "/api/auth/2fa/recovery-codes", { code });
+      return response.json();
+    },
+    onSuccess: (data) => {
+      setCode("");
+      setRecoveryCodes(data.recoveryCodes);
+      queryClient.invalidateQueries({ queryKey: ["/api/auth/2fa"] });
+    },
+    onError: (error: Error) => {
+      setCode("");
+      toast({
+        title: "Failed to replace recovery codes",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const disableMutation = useMutation({
+    mutationFn: async () => {
+      await apiRequest("POST", "/api/auth/2fa/disable", { code });
+    },
+    onSuccess: async () => {
+      setCode("");
+      queryClient.invalidateQueries({ queryKey: ["/api/auth/2fa"] });
+      toast({ title: "Two-factor authentication disabled" });
+      await refreshUser();
+    },
+    onError: (error: Error) => {
+      setCode("");
+      toast({
+        title: "Failed to disable two-factor authentication",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleOpenChange = (open: boolean) => {
+    if (!open) {
+      setCode("");
+      setRecoveryCodes(null);
+    }
+    onOpenChange(open);
+  };
+
+  const handleDisable = () => {
+    if (confirm("Turn off two-factor authentication?")) {
+      disableMutation.mutate();
+    }
+  };
+
+  const busy = regenerateMutation.isPending || disableMutation.isPending;
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Two-Factor Authentication</DialogTitle>
+        </DialogHeader>
+        {isLoading || !status ? (
+          <div>Loading...</div>
+        ) : recoveryCodes ? (
+          <RecoveryCodesList codes={recoveryCodes} onDone={() => setRecoveryCodes(null)} />
+        ) : !status.enabled ? (
+          <TwoFactorSetupForm onDone={() => handleOpenChange(false)} />
+        ) : (
+          <div className="space-y-4">
+            <div className="flex items-center justify-between">
+              <Badge>On</Badge>
+              <span className="text-sm text-slate-600">
+                {status.recoveryCodesRemaining} recovery codes left
+              </span>
+            </div>
+            <p className="text-sm text-slate-600">
+              Enter a code from your authenticator app, or a recovery code, to make changes.
+            </p>
+            <TwoFactorCodeInput value={code} onChange={setCode} allowRecoveryCode />
+            <div className="flex justify-end space-x-2">
+              {!status.required && (
+                <Button variant="outline" onClick={handleDisable} disabled={busy || !code}>
+                  Turn off
+                </Button>
+              )}
+              <Button onClick={() => regenerateMutation.mutate()} disabled={busy || !code}>
+                New recovery codes
+              </Button>
+            </div>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,95 @@
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { LogOut } from "lucide-react";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import type { PublicUser, PublicUserSession } from "@shared/schema";
+
+interface UserSessionsDialogProps {
+  user: PublicUser | null;
+  onClose: () => void;
+}
+
+// Where a user is signed in, with a way to sign any of those devices out.
+export function UserSessionsDialog({ user, onClose }: UserSessionsDialogProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: sessions = [], isLoading } = useQuery<PublicUserSession[]>({
+    queryKey: ["/api/users", user?.id, "sessions"],
+    enabled: !!user,
+  });
+
+  const revokeMutation = useMutation({
+    mutationFn: async (sessionId?: number) => {
+      const url = sessionId === undefined
+        ? `/api/users/${user!.id}/sessions`
+        : `/api/users/${user!.id}/sessions/${sessionId}`;
+      await apiRequest("DELETE", url);
+    },
+    onSuccess: (_, sessionId) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/users", user?.id, "sessions"] });
+      toast({ title: sessionId === undefined ? "All sessions signed out" : "Session signed out" });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to sign out session",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleRevokeAll = () => {
+    if (confirm(`Sign ${user?.username} out everywhere?`)) {
+      revokeMutation.mutate(undefined);
+    }
+  };
+
+  return (
+    <Dialog open={!!user} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Sessions for {user?.username}</DialogTitle>
+        </DialogHeader>
+        {isLoading ? (
+          <div>Loading sessions...</div>
+        ) : sessions.length === 0 ? (
+          <p className="text-sm text-slate-600">Not signed in anywhere.</p>
+        ) : (
+          <div className="space-y-2">
+            {sessions.map((session) => (
+              <div key={session.id} className="flex items-center justify-between p-3 bg-slate-50 rounded-lg">
+                <div className="min-w-0 text-sm">
+                  <div className="font-medium truncate" title={session.userAgent ?? undefined}>
+                    {session.userAgent || "Unknown device"}
+                  </div>
+                  <div className="text-slate-600">
+                    {session.ipAddress && `${session.ipAddress} · `}
+                    Signed in {session.createdAt ? new Date(session.createdAt).toLocaleString() : "N/A"}
+                    {session.lastUsedAt && ` · last active ${new Date(session.lastUsedAt).toLocaleString()}`}
+                  </div>
+                </div>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  title="Sign out"
+                  onClick={() => revokeMutation.mutate(session.id)}
+                  disabled={revokeMutation.isPending}
+                >
+                  <LogOut size={16} />
+                </Button>
+              </div>
+            ))}
+            <div className="flex justify-end pt-2">
+              <Button variant="outline" onClick={handleRevokeAll} disabled={revokeMutation.isPending}>
+                Sign out everywhere
+              </Button>
+            </div>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
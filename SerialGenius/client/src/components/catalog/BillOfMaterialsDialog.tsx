@@ -0,0 +1,158 @@
+import { useEffect, useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Trash2 } from "lucide-react";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { usePanels } from "@/hooks/use-catalog";
+import type { Machine, MachinePanelsInput, MachinePanelWithPanel, Panel, PanelPartWithPanel } from "@shared/schema";
+
+// What the dialog edits the bill of materials of: a machine, or a part that
+// is built from other parts.
+export type BillOfMaterialsOwner =
+  | { machine: Machine; part?: undefined }
+  | { part: Panel; machine?: undefined };
+
+interface BillOfMaterialsDialogProps {
+  owner: BillOfMaterialsOwner | null;
+  onClose: () => void;
+}
+
+// Edits which parts go into the owner, how many of each, and, for machines,
+// whether the order line has to pick them.
+export function BillOfMaterialsDialog({ owner, onClose }: BillOfMaterialsDialogProps) {
+  const [items, setItems] = useState<MachinePanelsInput>([]);
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const queryKey = owner?.machine
+    ? ["/api/machines", owner.machine.id, "panels"]
+    : ["/api/panels", owner?.part.id, "parts"];
+  const { data: billOfMaterials, isLoading } = useQuery<Array<MachinePanelWithPanel | PanelPartWithPanel>>({
+    queryKey,
+    enabled: !!owner,
+  });
+  const { data: panels = [] } = usePanels();
+
+  // Start from the saved list each time the dialog opens.
+  useEffect(() => {
+    setItems((billOfMaterials ?? []).map((item) => ({
+      panelId: item.panelId,
+      quantity: item.quantity,
+      optional: "optional" in item && item.optional,
+    })));
+  }, [billOfMaterials, owner]);
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("PUT", queryKey.join("/"), items);
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey });
+      queryClient.invalidateQueries({ queryKey: [owner?.machine ? "/api/machine-panels" : "/api/panel-parts"] });
+      toast({ title: "Bill of materials saved" });
+      onClose();
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to save bill of materials",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const updateItem = (index: number, changes: Partial<MachinePanelsInput[number]>) => {
+    setItems(items.map((item, i) => i === index ? { ...item, ...changes } : item));
+  };
+
+  const availablePanels = panels.filter(panel =>
+    panel.id !== owner?.part?.id && !items.some(item => item.panelId === panel.id));
+
+  return (
+    <Dialog open={!!owner} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Parts in {(owner?.machine ?? owner?.part)?.name}</DialogTitle>
+        </DialogHeader>
+        {isLoading ? (
+          <div>Loading parts...</div>
+        ) : (
+          <div className="space-y-3">
+            {items.length === 0 && (
+              <p className="text-sm text-slate-600">Nothing goes into this yet.</p>
+            )}
+            {items.map((item, index) => {
+              const panel = panels.find(p => p.id === item.panelId);
+              return (
+                <div key={item.panelId} className="flex items-center space-x-3 p-3 bg-slate-50 rounded-lg">
+                  <div className="flex-1 min-w-0">
+                    <p className="font-medium truncate">{panel?.name ?? "Unknown Part"}</p>
+                    <p className="text-sm text-slate-600">Code: {panel?.panelCode}</p>
+                  </div>
+                  <div className="w-20">
+                    <Input
+                      type="number"
+                      min="1"
+                      aria-label="Quantity per unit"
+                      value={item.quantity}
+                      onChange={(e) => updateItem(index, { quantity: Number(e.target.value) })}
+                    />
+                  </div>
+                  {owner?.machine && (
+                    <label className="flex items-center space-x-2 text-sm">
+                      <Checkbox
+                        checked={item.optional}
+                        onCheckedChange={(checked) => updateItem(index, { optional: checked === true })}
+                      />
+                      <span>Optional</span>
+                    </label>
+                  )}
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => setItems(items.filter((_, i) => i !== index))}
+                  >
+                    <Trash2 size={16} />
+                  </Button>
+                </div>
+              );
+            })}
+            <Select
+              value=""
+              onValueChange={(value) => setItems([...items, { panelId: Number(value), quantity: 1, optional: false }])}
+            >
+              <SelectTrigger>
+                <SelectValue placeholder="Add a part" />
+              </SelectTrigger>
+              <SelectContent>
+                {availablePanels.map((panel) => (
+                  <SelectItem key={panel.id} value={panel.id.toString()}>
+                    {panel.name} ({panel.panelCode})
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <div className="flex justify-end space-x-2">
+              <Button type="button" variant="outline" onClick={onClose}>
+                Cancel
+              </Button>
+              <Button
+                onClick={() => saveMutation.mutate()}
+                disabled={saveMutation.isPending || items.some(item => !(item.quantity >= 1))}
+              >
+                {saveMutation.isPending ? "Saving..." : "Save"}
+              </Button>
+            </div>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,64 @@
+import { useFormContext } from "react-hook-form";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { PART_KINDS, type PartKind } from "@shared/schema";
+
+export const PART_KIND_LABELS: Record<PartKind, string> = {
+  assembly: "Assembly",
+  panel: "Panel",
+  component: "Component",
+};
+
+interface PartKindValues {
+  kind?: PartKind;
+  serialised?: boolean;
+}
+
+// Where a part sits in a machine and whether it gets serials. Must be
+// rendered inside the part dialog's <Form>.
+export function PartKindFields() {
+  const form = useFormContext<PartKindValues>();
+
+  return (
+    <>
+      <FormField
+        control={form.control}
+        name="kind"
+        render={({ field }) => (
+          <FormItem>
+            <FormLabel>Kind</FormLabel>
+            <Select onValueChange={field.onChange} value={field.value}>
+              <FormControl>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+              </FormControl>
+              <SelectContent>
+                {PART_KINDS.map((kind) => (
+                  <SelectItem key={kind} value={kind}>
+                    {PART_KIND_LABELS[kind]}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <FormMessage />
+          </FormItem>
+        )}
+      />
+
+      <FormField
+        control={form.control}
+        name="serialised"
+        render={({ field }) => (
+          <FormItem className="flex items-center space-x-2 space-y-0">
+            <FormControl>
+              <Checkbox checked={field.value} onCheckedChange={(checked) => field.onChange(checked === true)} />
+            </FormControl>
+            <FormLabel className="font-normal">Issue serial numbers for this part</FormLabel>
+          </FormItem>
+        )}
+      />
+    </>
+  );
+}
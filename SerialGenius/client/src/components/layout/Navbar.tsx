@@ -1,6 +1,8 @@
+import { useState } from "react";
 import { Link, useLocation } from "wouter";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
 import { 
   Barcode, 
   Home, 
@@ -8,10 +10,16 @@ import {
   Cpu, 
   List, 
   Bell, 
+  History,
+  KeyRound,
   LogOut,
-  Plus
+  Plus,
+  ShieldCheck,
+  Users
 } from "lucide-react";
 import { useAuth } from "@/components/auth/AuthProvider";
+import { ChangePasswordForm } from "@/components/auth/ChangePasswordModal";
+import { TwoFactorSettingsDialog } from "@/components/auth/TwoFactorSetup";
 import { cn } from "@/lib/utils";
 
 interface NavbarProps {
@@ -20,13 +28,17 @@ interface NavbarProps {
 
 export function Navbar({ onAddOrder }: NavbarProps) {
   const [location] = useLocation();
-  const { user, logout, isAdmin } = useAuth();
+  const { user, logout, can } = useAuth();
+  const [showChangePassword, setShowChangePassword] = useState(false);
+  const [showTwoFactor, setShowTwoFactor] = useState(false);
 
   const navigation = [
     { name: "Dashboard", href: "/", icon: Home },
     { name: "Machines", href: "/machines", icon: Settings },
-    { name: "Panels", href: "/panels", icon: Cpu },
+    { name: "Parts", href: "/panels", icon: Cpu },
     { name: "Serial Numbers", href: "/serials", icon: List },
+    ...(can("users.manage") ? [{ name: "Users", href: "/users", icon: Users }] : []),
+    ...(can("audit.view") ? [{ name: "Audit", href: "/audit", icon: History }] : []),
   ];
 
   return (
@@ -66,13 +78,13 @@ export function Navbar({ onAddOrder }: NavbarProps) {
           </div>
           
           <div className="flex items-center space-x-2 md:space-x-4">
-            {isAdmin && onAddOrder && (
+            {can("orders.create") && onAddOrder && (
               <Button onClick={onAddOrder} size="sm" className="hidden sm:flex">
                 <Plus className="mr-2" size={16} />
                 Add Order
               </Button>
             )}
-            {isAdmin && onAddOrder && (
+            {can("orders.create") && onAddOrder && (
               <Button onClick={onAddOrder} size="sm" className="sm:hidden">
                 <Plus size={16} />
               </Button>
@@ -96,6 +108,14 @@ export function Navbar({ onAddOrder }: NavbarProps) {
               <Bell size={20} />
             </Button>
             
+            <Button variant="ghost" size="sm" title="Change password" onClick={() => setShowChangePassword(true)}>
+              <KeyRound size={16} />
+            </Button>
+
+            <Button variant="ghost" size="sm" title="Two-factor authentication" onClick={() => setShowTwoFactor(true)}>
+              <ShieldCheck size={16} />
+            </Button>
+            
             <Button variant="ghost" size="sm" onClick={logout}>
               <LogOut size={16} className="md:size-20" />
             </Button>
@@ -127,6 +147,17 @@ export function Navbar({ onAddOrder }: NavbarProps) {
           </div>
         </div>
       </div>
+
+      <Dialog open={showChangePassword} onOpenChange={setShowChangePassword}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Change Password</DialogTitle>
+          </DialogHeader>
+          <ChangePasswordForm onDone={() => setShowChangePassword(false)} />
+        </DialogContent>
+      </Dialog>
+
+      <TwoFactorSettingsDialog open={showTwoFactor} onOpenChange={setShowTwoFactor} />
     </nav>
   );
 }
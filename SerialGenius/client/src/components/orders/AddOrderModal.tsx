@@ -13,8 +13,13 @@ import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Plus, Trash2, X } from "lucide-react";
 import { apiRequest } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
+import { useDebouncedValue } from "@/hooks/use-debounced-value";
+import { useMachines, usePanels } from "@/hooks/use-catalog";
+import { OrderLineFields, type OrderLineDraft } from "./OrderLineFields";
+import { OrderLinePanels } from "./OrderLinePanels";
 import { insertOrderSchema } from "@shared/schema";
-import type { Machine, Country, Panel } from "@shared/schema";
+import { INITIAL_ORDER_STATUSES } from "@shared/orderLifecycle";
+import type { Country, PreviewSerial } from "@shared/schema";
 
 const orderFormSchema = z.object({
   customerName: z.string().min(1, "Customer name is required"),
@@ -22,22 +27,27 @@ const orderFormSchema = z.object({
   state: z.string().min(1, "State/Province is required"),
   countryId: z.number().min(1, "Please select a country"),
   quoteNumber: z.string().min(1, "Quote number is required"),
-  invoiceNumber: z.string().min(1, "Invoice number is required"),
+  invoiceNumber: z.string(),
   dueDate: z.string().min(1, "Due date is required"),
-  progressStatus: z.enum(["Pending", "In Progress", "Completed"]),
+  progressStatus: z.enum(INITIAL_ORDER_STATUSES),
+  confirmationDate: z.string(),
   paymentStatus: z.enum(["Pending", "Partial", "Paid"]),
-  machines: z.array(z.object({
+  lines: z.array(z.object({
     machineId: z.number(),
-    quantity: z.number().min(1)
+    quantity: z.number().min(1),
+    unitPrice: z.number().nonnegative().nullable(),
+    notes: z.string(),
+    configuration: z.record(z.string()),
+    optionalPanelIds: z.array(z.number()),
   })).min(1, "At least one machine is required")
+}).refine(data => data.progressStatus !== "Confirmed" || data.confirmationDate, {
+  message: "Confirmation date is required",
+  path: ["confirmationDate"],
 });
 
 type OrderFormData = z.infer<typeof orderFormSchema>;
 
-interface MachineSelection {
-  machineId: number;
-  quantity: number;
-}
+const emptyLine = (): OrderLineDraft => ({ machineId: 0, quantity: 1, unitPrice: null, notes: "", configuration: {}, optionalPanelIds: [] });
 
 interface AddOrderModalProps {
   open: boolean;
@@ -45,9 +55,7 @@ interface AddOrderModalProps {
 }
 
 export function AddOrderModal({ open, onClose }: AddOrderModalProps) {
-  const [machineSelections, setMachineSelections] = useState<MachineSelection[]>([
-    { machineId: 0, quantity: 1 }
-  ]);
+  const [machineSelections, setMachineSelections] = useState<OrderLineDraft[]>([emptyLine()]);
   
   const { toast } = useToast();
   const queryClient = useQueryClient();
@@ -62,38 +70,62 @@ export function AddOrderModal({ open, onClose }: AddOrderModalProps) {
       quoteNumber: "",
       invoiceNumber: "",
       dueDate: "",
-      progressStatus: "Pending" as const,
+      progressStatus: "Quote" as const,
+      confirmationDate: "",
       paymentStatus: "Pending" as const,
-      machines: [],
+      lines: [],
     },
   });
 
-  const { data: machines = [] } = useQuery<Machine[]>({
-    queryKey: ["/api/machines"],
-  });
+  const { data: machines = [] } = useMachines();
 
   const { data: countries = [] } = useQuery<Country[]>({
     queryKey: ["/api/countries"],
   });
 
-  const { data: panels = [] } = useQuery<Panel[]>({
-    queryKey: ["/api/panels"],
+  const { data: panels = [] } = usePanels();
+
+  const validMachineSelections = machineSelections.filter(ms => ms.machineId > 0 && ms.quantity > 0);
+  const previewLines = validMachineSelections.map(({ machineId, quantity, optionalPanelIds }) => ({ machineId, quantity, optionalPanelIds }));
+  const previewCountryId = form.watch("countryId");
+  const previewQuoteNumber = form.watch("quoteNumber");
+
+  // Serials the server would issue for the current selection, asked for once
+  // typing pauses rather than on every keystroke.
+  const previewRequest = useDebouncedValue(JSON.stringify({
+    countryId: previewCountryId,
+    quoteNumber: previewQuoteNumber,
+    lines: previewLines,
+  }), 400);
+  const { data: previewSerials = [], isFetching: previewLoading, error: previewError } = useQuery<PreviewSerial[]>({
+    queryKey: ["/api/orders/preview", previewRequest],
+    queryFn: async () => {
+      const response = await apiRequest("POST", "/api/orders/preview", JSON.parse(previewRequest));
+      return response.json();
+    },
+    enabled: open && previewCountryId > 0 && validMachineSelections.length > 0,
+    staleTime: 0,
   });
 
   const createOrderMutation = useMutation({
     mutationFn: async (data: OrderFormData) => {
-      const response = await apiRequest("POST", "/api/orders", data);
+      const response = await apiRequest("POST", "/api/orders", {
+        ...data,
+        confirmationDate: data.progressStatus === "Confirmed" ? data.confirmationDate : null,
+      });
       return response.json();
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["/api/orders"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/serials"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/serial-sequences"] });
       toast({
         title: "Order created successfully",
         description: "Serial numbers have been generated automatically",
       });
       onClose();
       form.reset();
-      setMachineSelections([{ machineId: 0, quantity: 1 }]);
+      setMachineSelections([emptyLine()]);
     },
     onError: (error: any) => {
       toast({
@@ -105,10 +137,10 @@ export function AddOrderModal({ open, onClose }: AddOrderModalProps) {
   });
 
   const addMachineSelection = () => {
-    const updated = [...machineSelections, { machineId: 0, quantity: 1 }];
+    const updated = [...machineSelections, emptyLine()];
     setMachineSelections(updated);
     const validMachines = updated.filter(ms => ms.machineId > 0 && ms.quantity > 0);
-    form.setValue('machines', validMachines);
+    form.setValue('lines', validMachines);
   };
 
   const removeMachineSelection = (index: number) => {
@@ -116,26 +148,28 @@ export function AddOrderModal({ open, onClose }: AddOrderModalProps) {
       const updated = machineSelections.filter((_, i) => i !== index);
       setMachineSelections(updated);
       const validMachines = updated.filter(ms => ms.machineId > 0 && ms.quantity > 0);
-      form.setValue('machines', validMachines);
+      form.setValue('lines', validMachines);
     }
   };
 
-  const updateMachineSelection = (index: number, field: keyof MachineSelection, value: number) => {
+  const updateMachineSelection = (index: number, changes: Partial<OrderLineDraft>) => {
     const updated = [...machineSelections];
-    updated[index] = { ...updated[index], [field]: value };
+    updated[index] = { ...updated[index], ...changes };
     setMachineSelections(updated);
     
-    // Update form machines array
+    // Update form lines array
     const validMachines = updated.filter(ms => ms.machineId > 0 && ms.quantity > 0);
-    form.setValue('machines', validMachines);
+    form.setValue('lines', validMachines);
   };
 
-  const getAttachedPanels = () => {
-    const selectedMachineIds = machineSelections
-      .filter(ms => ms.machineId > 0)
-      .map(ms => ms.machineId);
-    
-    return panels.filter(panel => selectedMachineIds.includes(panel.parentMachineId));
+  // How many levels down the unit the serial's part sits.
+  const getSerialDepth = (serial: PreviewSerial): number => {
+    return serial.parent !== undefined ? getSerialDepth(previewSerials[serial.parent]) + 1 : 0;
+  };
+
+  const getSerialItemName = (serial: PreviewSerial) => {
+    if (serial.machineId) return machines.find(m => m.id === serial.machineId)?.name;
+    return panels.find(p => p.id === serial.panelId)?.name;
   };
 
   const onSubmit = (data: OrderFormData) => {
@@ -158,7 +192,7 @@ export function AddOrderModal({ open, onClose }: AddOrderModalProps) {
       ...data,
       countryId: Number(data.countryId),
       dueDate: new Date(data.dueDate).toISOString(),
-      machines: validMachines,
+      lines: validMachines,
     };
 
     console.log("Final order data:", orderData);
@@ -286,7 +320,7 @@ export function AddOrderModal({ open, onClose }: AddOrderModalProps) {
                       <FormItem>
                         <FormLabel>Invoice Number</FormLabel>
                         <FormControl>
-                          <Input placeholder="INV-2024-XXX" {...field} />
+                          <Input placeholder="INV-2024-XXX (optional until shipping)" {...field} />
                         </FormControl>
                         <FormMessage />
                       </FormItem>
@@ -312,23 +346,39 @@ export function AddOrderModal({ open, onClose }: AddOrderModalProps) {
                     name="progressStatus"
                     render={({ field }) => (
                       <FormItem>
-                        <FormLabel>Progress Status</FormLabel>
-                        <Select onValueChange={field.onChange} defaultValue={field.value}>
+                        <FormLabel>Status</FormLabel>
+                        <Select onValueChange={field.onChange} value={field.value}>
                           <FormControl>
                             <SelectTrigger>
-                              <SelectValue placeholder="Select progress status" />
+                              <SelectValue placeholder="Select status" />
                             </SelectTrigger>
                           </FormControl>
                           <SelectContent>
-                            <SelectItem value="Pending">Pending</SelectItem>
-                            <SelectItem value="In Progress">In Progress</SelectItem>
-                            <SelectItem value="Completed">Completed</SelectItem>
+                            {INITIAL_ORDER_STATUSES.map((status) => (
+                              <SelectItem key={status} value={status}>{status}</SelectItem>
+                            ))}
                           </SelectContent>
                         </Select>
                         <FormMessage />
                       </FormItem>
                     )}
                   />
+
+                  {form.watch("progressStatus") === "Confirmed" && (
+                    <FormField
+                      control={form.control}
+                      name="confirmationDate"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>Confirmation Date</FormLabel>
+                          <FormControl>
+                            <Input type="date" {...field} />
+                          </FormControl>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                  )}
                   
                   <FormField
                     control={form.control}
@@ -364,41 +414,53 @@ export function AddOrderModal({ open, onClose }: AddOrderModalProps) {
               <CardContent>
                 <div className="space-y-4">
                   {machineSelections.map((selection, index) => (
-                    <div key={index} className="flex items-center space-x-4 p-4 bg-slate-50 rounded-lg">
-                      <Select
-                        onValueChange={(value) => updateMachineSelection(index, 'machineId', Number(value))}
-                      >
-                        <SelectTrigger className="flex-1">
-                          <SelectValue placeholder="Select a machine" />
-                        </SelectTrigger>
-                        <SelectContent>
-                          {machines.map((machine) => (
-                            <SelectItem key={machine.id} value={machine.id.toString()}>
-                              {machine.name} ({machine.productCode})
-                            </SelectItem>
-                          ))}
-                        </SelectContent>
-                      </Select>
+                    <div key={index} className="p-4 bg-slate-50 rounded-lg space-y-3">
+                      <div className="flex items-center space-x-4">
+                        <Select
+                          value={selection.machineId ? selection.machineId.toString() : undefined}
+                          onValueChange={(value) => updateMachineSelection(index, { machineId: Number(value), optionalPanelIds: [] })}
+                        >
+                          <SelectTrigger className="flex-1">
+                            <SelectValue placeholder="Select a machine" />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {machines.map((machine) => (
+                              <SelectItem key={machine.id} value={machine.id.toString()}>
+                                {machine.name} ({machine.productCode})
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
                       
-                      <div className="w-32">
-                        <Input
-                          type="number"
-                          min="1"
-                          placeholder="Qty"
-                          value={selection.quantity}
-                          onChange={(e) => updateMachineSelection(index, 'quantity', Number(e.target.value))}
-                        />
-                      </div>
+                        <div className="w-32">
+                          <Input
+                            type="number"
+                            min="1"
+                            placeholder="Qty"
+                            value={selection.quantity}
+                            onChange={(e) => updateMachineSelection(index, { quantity: Number(e.target.value) })}
+                          />
+                        </div>
                       
-                      <Button
-                        type="button"
-                        variant="ghost"
-                        size="sm"
-                        onClick={() => removeMachineSelection(index)}
-                        disabled={machineSelections.length === 1}
-                      >
-                        <Trash2 size={16} />
-                      </Button>
+                        <Button
+                          type="button"
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => removeMachineSelection(index)}
+                          disabled={machineSelections.length === 1}
+                        >
+                          <Trash2 size={16} />
+                        </Button>
+                      </div>
+                      <OrderLinePanels
+                        line={selection}
+                        onChange={(line) => updateMachineSelection(index, line)}
+                      />
+                      <OrderLineFields
+                        line={selection}
+                        onChange={(line) => updateMachineSelection(index, line)}
+                        idPrefix={`new-order-line-${index}`}
+                      />
                     </div>
                   ))}
                   
@@ -413,20 +475,30 @@ export function AddOrderModal({ open, onClose }: AddOrderModalProps) {
                   </Button>
                 </div>
                 
-                {/* Auto-attached Panels Preview */}
-                {getAttachedPanels().length > 0 && (
+                {/* Serial Number Preview */}
+                {validMachineSelections.length > 0 && (
                   <Card className="mt-4 bg-blue-50">
                     <CardContent className="p-4">
-                      <h4 className="font-medium text-blue-900 mb-2">Auto-attached Panels:</h4>
+                      <h4 className="font-medium text-blue-900 mb-2">Serial Numbers to be Issued:</h4>
                       <div className="text-sm text-blue-700 space-y-1">
-                        {getAttachedPanels().map((panel) => (
-                          <p key={panel.id}>
-                            • {panel.name} ({panel.panelCode}) - attached to {machines.find(m => m.id === panel.parentMachineId)?.name}
-                          </p>
-                        ))}
-                        <p className="mt-2 text-blue-600">
-                          Serial numbers will be automatically generated for all machines and panels using the prefix### format.
-                        </p>
+                        {!(previewCountryId > 0) ? (
+                          <p>Select a country to preview the serial numbers for this order.</p>
+                        ) : previewLoading ? (
+                          <p>Generating preview...</p>
+                        ) : previewError ? (
+                          <p className="text-red-600">{(previewError as Error).message}</p>
+                        ) : (
+                          <>
+                            {previewSerials.map((serial) => (
+                              <p key={serial.serialNumber} style={{ paddingLeft: `${getSerialDepth(serial)}rem` }}>
+                                • <span className="font-mono font-medium">{serial.serialNumber}</span> - {getSerialItemName(serial)}
+                              </p>
+                            ))}
+                            <p className="mt-2 text-blue-600">
+                              Numbers may move on if other orders are created before this one.
+                            </p>
+                          </>
+                        )}
                       </div>
                     </CardContent>
                   </Card>
@@ -1,26 +1,14 @@
 import { Badge } from "@/components/ui/badge";
 import { Card, CardContent } from "@/components/ui/card";
-import { Order, Country } from "@shared/schema";
+import { OrderWithLines, Country } from "@shared/schema";
+import { OrderStatusBadge } from "./OrderStatusBadge";
 
 interface OrderCardProps {
-  order: Order & { country?: Country };
+  order: OrderWithLines & { country?: Country };
   onClick: () => void;
 }
 
 export function OrderCard({ order, onClick }: OrderCardProps) {
-  const getStatusColor = (status: string) => {
-    switch (status) {
-      case 'Completed':
-        return 'bg-emerald-100 text-emerald-800';
-      case 'In Progress':
-        return 'bg-amber-100 text-amber-800';
-      case 'Confirmed':
-        return 'bg-blue-100 text-blue-800';
-      default:
-        return 'bg-slate-100 text-slate-800';
-    }
-  };
-
   const getPaymentColor = (status: string) => {
     switch (status) {
       case 'Paid':
@@ -32,8 +20,8 @@ export function OrderCard({ order, onClick }: OrderCardProps) {
     }
   };
 
-  const totalQuantity = order.machines.reduce((sum, m) => sum + m.quantity, 0);
-  const machineCount = order.machines.length;
+  const totalQuantity = order.lines.reduce((sum, line) => sum + line.quantity, 0);
+  const machineCount = order.lines.length;
 
   return (
     <Card 
@@ -50,9 +38,7 @@ export function OrderCard({ order, onClick }: OrderCardProps) {
               {order.city}, {order.state}, {order.country?.name}
             </p>
           </div>
-          <Badge className={getStatusColor(order.progressStatus)}>
-            {order.progressStatus}
-          </Badge>
+          <OrderStatusBadge status={order.progressStatus} />
         </div>
         
         <div className="space-y-3 mb-4">
@@ -62,7 +48,7 @@ export function OrderCard({ order, onClick }: OrderCardProps) {
           </div>
           <div className="flex justify-between text-sm">
             <span className="text-slate-600">Invoice #:</span>
-            <span className="font-medium text-slate-900">{order.invoiceNumber}</span>
+            <span className="font-medium text-slate-900">{order.invoiceNumber || "—"}</span>
           </div>
           <div className="flex justify-between text-sm">
             <span className="text-slate-600">Due Date:</span>
@@ -0,0 +1,45 @@
+import { useQuery } from "@tanstack/react-query";
+import { AuditActionBadge, AuditChanges, auditActorName } from "@/components/audit/AuditChanges";
+import type { AuditEventWithActor } from "@shared/schema";
+
+interface OrderHistoryProps {
+  orderId: string;
+}
+
+// Changes to the order and its serials, newest first.
+export function OrderHistory({ orderId }: OrderHistoryProps) {
+  const { data: events = [], isLoading } = useQuery<AuditEventWithActor[]>({
+    queryKey: ["/api/orders", orderId, "history"],
+  });
+
+  if (isLoading) {
+    return <div>Loading history...</div>;
+  }
+
+  if (events.length === 0) {
+    return <p className="text-sm text-slate-500">No changes recorded for this order.</p>;
+  }
+
+  return (
+    <ol className="space-y-3">
+      {events.map((event) => (
+        <li key={event.id} className="p-3 bg-slate-50 rounded-lg space-y-2">
+          <div className="flex flex-wrap items-center gap-2 text-sm">
+            <AuditActionBadge action={event.action} />
+            <span className="font-medium">
+              {event.entityType === "serial"
+                ? `Serial ${event.entityLabel}`
+                : event.entityType === "order_line"
+                  ? `Line ${event.entityLabel}`
+                  : "Order"}
+            </span>
+            <span className="text-slate-600">
+              by {auditActorName(event)} · {event.createdAt ? new Date(event.createdAt).toLocaleString() : "N/A"}
+            </span>
+          </div>
+          <AuditChanges event={event} />
+        </li>
+      ))}
+    </ol>
+  );
+}
@@ -0,0 +1,105 @@
+import { useEffect, useState } from "react";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import type { OrderLine } from "@shared/schema";
+
+// An order line as the forms edit it. Prices are numbers here; the API
+// returns them as decimal strings.
+export interface OrderLineDraft {
+  id?: number;
+  machineId: number;
+  quantity: number;
+  unitPrice: number | null;
+  notes: string;
+  configuration: Record<string, string>;
+  optionalPanelIds: number[];
+}
+
+export function orderLineDraft(line: OrderLine): OrderLineDraft {
+  return {
+    id: line.id,
+    machineId: line.machineId,
+    quantity: line.quantity,
+    unitPrice: line.unitPrice === null ? null : Number(line.unitPrice),
+    notes: line.notes,
+    configuration: line.configuration,
+    optionalPanelIds: line.optionalPanelIds,
+  };
+}
+
+// "Voltage: 480V" per option.
+export function formatConfiguration(configuration: Record<string, string>): string {
+  return Object.entries(configuration).map(([name, value]) => `${name}: ${value}`).join("\n");
+}
+
+function parseConfiguration(text: string): Record<string, string> {
+  const configuration: Record<string, string> = {};
+  for (const row of text.split("\n")) {
+    const [name, ...value] = row.split(":");
+    if (name.trim()) {
+      configuration[name.trim()] = value.join(":").trim();
+    }
+  }
+  return configuration;
+}
+
+interface OrderLineFieldsProps {
+  line: OrderLineDraft;
+  onChange: (line: OrderLineDraft) => void;
+  idPrefix: string;
+}
+
+// Price, notes and options of one line; the machine and quantity sit in the
+// row above.
+export function OrderLineFields({ line, onChange, idPrefix }: OrderLineFieldsProps) {
+  // The options are edited as text so half-typed rows survive until they parse.
+  const [configurationText, setConfigurationText] = useState(() => formatConfiguration(line.configuration));
+
+  // Follow the line when it changes from outside, e.g. rows shifting up after
+  // one above is removed.
+  useEffect(() => {
+    if (JSON.stringify(parseConfiguration(configurationText)) !== JSON.stringify(line.configuration)) {
+      setConfigurationText(formatConfiguration(line.configuration));
+    }
+  }, [line.configuration]);
+
+  return (
+    <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+      <div className="space-y-1">
+        <Label htmlFor={`${idPrefix}-price`} className="text-xs text-slate-600">Unit Price</Label>
+        <Input
+          id={`${idPrefix}-price`}
+          type="number"
+          min="0"
+          step="0.01"
+          placeholder="Not priced"
+          value={line.unitPrice ?? ""}
+          onChange={(e) => onChange({ ...line, unitPrice: e.target.value === "" ? null : Number(e.target.value) })}
+        />
+      </div>
+      <div className="space-y-1">
+        <Label htmlFor={`${idPrefix}-notes`} className="text-xs text-slate-600">Notes</Label>
+        <Input
+          id={`${idPrefix}-notes`}
+          value={line.notes}
+          onChange={(e) => onChange({ ...line, notes: e.target.value })}
+        />
+      </div>
+      <div className="space-y-1 sm:col-span-2">
+        <Label htmlFor={`${idPrefix}-configuration`} className="text-xs text-slate-600">
+          Configuration (one option per line, e.g. Voltage: 480V)
+        </Label>
+        <Textarea
+          id={`${idPrefix}-configuration`}
+          rows={2}
+          value={configurationText}
+          onChange={(e) => {
+            setConfigurationText(e.target.value);
+            onChange({ ...line, configuration: parseConfiguration(e.target.value) });
+          }}
+        />
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,54 @@
+import { Checkbox } from "@/components/ui/checkbox";
+import { useBillOfMaterials, usePanels } from "@/hooks/use-catalog";
+import type { OrderLineDraft } from "./OrderLineFields";
+
+interface OrderLinePanelsProps {
+  line: OrderLineDraft;
+  onChange: (line: OrderLineDraft) => void;
+}
+
+// The panels each unit of the line's machine comes with, and a box per
+// optional panel to pick it. Picked panels get serials like standard ones.
+export function OrderLinePanels({ line, onChange }: OrderLinePanelsProps) {
+  const { data: billOfMaterials = [] } = useBillOfMaterials();
+  const { data: panels = [] } = usePanels();
+
+  const items = billOfMaterials
+    .filter((item) => item.machineId === line.machineId)
+    .flatMap((item) => {
+      const panel = panels.find((p) => p.id === item.panelId);
+      return panel ? [{ ...item, panel }] : [];
+    });
+  if (items.length === 0) return null;
+
+  const standard = items.filter((item) => !item.optional);
+  const optional = items.filter((item) => item.optional);
+
+  return (
+    <div className="space-y-1 text-sm">
+      {standard.length > 0 && (
+        <p className="text-slate-600">
+          Each unit includes{" "}
+          {standard.map((item) => `${item.quantity} × ${item.panel.name}`).join(", ")}
+        </p>
+      )}
+      {optional.map((item) => (
+        <label key={item.panelId} className="flex items-center space-x-2">
+          <Checkbox
+            checked={line.optionalPanelIds.includes(item.panelId)}
+            onCheckedChange={(checked) => onChange({
+              ...line,
+              optionalPanelIds: checked
+                ? [...line.optionalPanelIds, item.panelId]
+                : line.optionalPanelIds.filter((id) => id !== item.panelId),
+            })}
+          />
+          <span>
+            {item.quantity} × {item.panel.name} ({item.panel.panelCode}) per unit
+            <span className="text-slate-500"> — optional</span>
+          </span>
+        </label>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,143 @@
+import { useState } from "react";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { nextOrderStatuses, orderStatusProblems, type OrderStatus } from "@shared/orderLifecycle";
+import type { Order, OrderTransition } from "@shared/schema";
+
+const ACTION_LABELS: Record<OrderStatus, string> = {
+  "Quote": "Back to quote",
+  "Confirmed": "Confirm",
+  "In Production": "Start production",
+  "Built": "Mark built",
+  "Shipped": "Ship",
+  "Closed": "Close",
+  "On Hold": "Put on hold",
+  "Cancelled": "Cancel order",
+};
+
+// Statuses that ask for details before the order can move into them.
+const STATUSES_WITH_DETAILS: OrderStatus[] = ["Confirmed", "Shipped"];
+
+const today = () => new Date().toISOString().split('T')[0];
+
+interface OrderStatusActionsProps {
+  order: Order;
+}
+
+// One button per status the order can move to next. Confirming and shipping
+// open a dialog for the confirmation date or invoice number those need.
+export function OrderStatusActions({ order }: OrderStatusActionsProps) {
+  const [detailsFor, setDetailsFor] = useState<OrderStatus | null>(null);
+  const [confirmationDate, setConfirmationDate] = useState(today());
+  const [invoiceNumber, setInvoiceNumber] = useState("");
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const transitionMutation = useMutation({
+    mutationFn: async (transition: OrderTransition) => {
+      const response = await apiRequest("POST", `/api/orders/${order.id}/status`, transition);
+      return response.json();
+    },
+    onSuccess: (_, { status }) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/orders"] });
+      toast({ title: `Order moved to ${status}` });
+      setDetailsFor(null);
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to change order status",
+        description: error.message || "An error occurred",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const nextStatuses = nextOrderStatuses(order);
+  if (nextStatuses.length === 0) {
+    return null;
+  }
+
+  const handleClick = (status: OrderStatus) => {
+    if (STATUSES_WITH_DETAILS.includes(status)) {
+      setConfirmationDate(today());
+      setInvoiceNumber(order.invoiceNumber);
+      setDetailsFor(status);
+    } else if (status !== "Cancelled" || confirm("Cancel this order? It can't be reopened.")) {
+      transitionMutation.mutate({ status });
+    }
+  };
+
+  const submitDetails = () => {
+    transitionMutation.mutate(detailsFor === "Confirmed"
+      ? { status: detailsFor, confirmationDate: new Date(confirmationDate) }
+      : { status: detailsFor!, invoiceNumber: invoiceNumber.trim() });
+  };
+
+  return (
+    <>
+      <div className="flex flex-wrap gap-2">
+        {nextStatuses.map((status) => {
+          // Whatever the dialog asks for doesn't count against the button.
+          const problems = STATUSES_WITH_DETAILS.includes(status) ? [] : orderStatusProblems(status, order);
+          const resumes = order.progressStatus === "On Hold" && status === order.heldFromStatus;
+          return (
+            <Button
+              key={status}
+              variant={status === "Cancelled" || status === "On Hold" ? "outline" : "default"}
+              size="sm"
+              title={problems.join("; ") || undefined}
+              onClick={() => handleClick(status)}
+              disabled={transitionMutation.isPending || problems.length > 0}
+            >
+              {resumes ? `Resume (${status})` : ACTION_LABELS[status]}
+            </Button>
+          );
+        })}
+      </div>
+
+      <Dialog open={detailsFor !== null} onOpenChange={(open) => !open && setDetailsFor(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{detailsFor === "Confirmed" ? "Confirm Order" : "Ship Order"}</DialogTitle>
+          </DialogHeader>
+          {detailsFor === "Confirmed" ? (
+            <div className="space-y-2">
+              <Label htmlFor="order-confirmation-date">Confirmation Date</Label>
+              <Input
+                id="order-confirmation-date"
+                type="date"
+                value={confirmationDate}
+                onChange={(e) => setConfirmationDate(e.target.value)}
+              />
+            </div>
+          ) : (
+            <div className="space-y-2">
+              <Label htmlFor="order-invoice-number">Invoice Number</Label>
+              <Input
+                id="order-invoice-number"
+                value={invoiceNumber}
+                onChange={(e) => setInvoiceNumber(e.target.value)}
+              />
+            </div>
+          )}
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setDetailsFor(null)}>
+              Cancel
+            </Button>
+            <Button
+              onClick={submitDetails}
+              disabled={transitionMutation.isPending || (detailsFor === "Confirmed" ? !confirmationDate : !invoiceNumber.trim())}
+            >
+              {transitionMutation.isPending ? "Saving..." : ACTION_LABELS[detailsFor ?? "Confirmed"]}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
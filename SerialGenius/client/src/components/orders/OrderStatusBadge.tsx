@@ -0,0 +1,21 @@
+import { Badge } from "@/components/ui/badge";
+import type { OrderStatus } from "@shared/orderLifecycle";
+
+const STATUS_COLORS: Record<OrderStatus, string> = {
+  "Quote": "bg-slate-100 text-slate-800 hover:bg-slate-200",
+  "Confirmed": "bg-purple-100 text-purple-800 hover:bg-purple-200",
+  "In Production": "bg-blue-100 text-blue-800 hover:bg-blue-200",
+  "Built": "bg-cyan-100 text-cyan-800 hover:bg-cyan-200",
+  "Shipped": "bg-emerald-100 text-emerald-800 hover:bg-emerald-200",
+  "Closed": "bg-green-100 text-green-800 hover:bg-green-200",
+  "On Hold": "bg-amber-100 text-amber-800 hover:bg-amber-200",
+  "Cancelled": "bg-red-100 text-red-800 hover:bg-red-200",
+};
+
+interface OrderStatusBadgeProps {
+  status: OrderStatus;
+}
+
+export function OrderStatusBadge({ status }: OrderStatusBadgeProps) {
+  return <Badge className={STATUS_COLORS[status]}>{status}</Badge>;
+}
@@ -0,0 +1,86 @@
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import type { PendingSerialDecision } from "@shared/schema";
+
+export type SerialDecisionAction = "void" | "scrap";
+
+interface SerialDecisionPanelProps {
+  pending: PendingSerialDecision[];
+  getItemName: (item: { machineId?: number; panelId?: number }) => string | undefined;
+  selectedIds: number[];
+  onSelectedIdsChange: (ids: number[]) => void;
+  action: SerialDecisionAction;
+  onActionChange: (action: SerialDecisionAction) => void;
+  reason: string;
+  onReasonChange: (reason: string) => void;
+}
+
+// Shown when saving lowered quantities: the user picks which serials the
+// removed units had, and whether they are voided or scrapped.
+export function SerialDecisionPanel({
+  pending,
+  getItemName,
+  selectedIds,
+  onSelectedIdsChange,
+  action,
+  onActionChange,
+  reason,
+  onReasonChange,
+}: SerialDecisionPanelProps) {
+  const toggle = (id: number, checked: boolean) => {
+    onSelectedIdsChange(checked ? [...selectedIds, id] : selectedIds.filter(selected => selected !== id));
+  };
+
+  return (
+    <div className="space-y-4 p-4 border border-amber-300 bg-amber-50 rounded-lg">
+      <p className="text-sm text-amber-900">
+        Lowering these quantities leaves serials without a unit. Choose which ones to retire.
+      </p>
+
+      {pending.map((item) => {
+        const chosen = item.candidates.filter(s => selectedIds.includes(s.id)).length;
+        return (
+          <div key={`${item.machineId}-${item.panelId}`}>
+            <h5 className="font-medium text-slate-900 mb-2">
+              {getItemName(item) ?? "Unknown item"}: choose {item.count} ({chosen} selected)
+            </h5>
+            <div className="space-y-1">
+              {item.candidates.map((serial) => (
+                <div key={serial.id} className="flex items-center space-x-2">
+                  <Checkbox
+                    id={`serial-decision-${serial.id}`}
+                    checked={selectedIds.includes(serial.id)}
+                    onCheckedChange={(checked) => toggle(serial.id, checked === true)}
+                  />
+                  <Label htmlFor={`serial-decision-${serial.id}`} className="font-mono">
+                    {serial.serialNumber}
+                  </Label>
+                </div>
+              ))}
+            </div>
+          </div>
+        );
+      })}
+
+      <div className="grid grid-cols-3 gap-4">
+        <Select onValueChange={(value) => onActionChange(value as SerialDecisionAction)} value={action}>
+          <SelectTrigger>
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="void">Void</SelectItem>
+            <SelectItem value="scrap">Scrap</SelectItem>
+          </SelectContent>
+        </Select>
+        <Input
+          className="col-span-2"
+          placeholder="Reason"
+          value={reason}
+          onChange={(e) => onReasonChange(e.target.value)}
+        />
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,127 @@
+import { useFormContext } from "react-hook-form";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { FormControl, FormDescription, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import {
+  DEFAULT_SERIAL_FORMAT,
+  renderSerialNumber,
+  validateSerialFormat,
+  type SequenceResetPolicy,
+} from "@shared/serialFormat";
+import {
+  appendCheckDigit,
+  CHECK_DIGIT_ALGORITHMS,
+  CHECK_DIGIT_LABELS,
+  type CheckDigitAlgorithm,
+} from "@shared/checkDigit";
+
+interface SerialFormatFieldsProps {
+  codeField: "productCode" | "panelCode";
+}
+
+interface SerialConfigValues {
+  productCode?: string;
+  panelCode?: string;
+  serialFormat?: string;
+  sequenceReset?: SequenceResetPolicy;
+  checkDigit?: CheckDigitAlgorithm;
+}
+
+// Serial number settings shared by the machine and panel dialogs. Must be
+// rendered inside the dialog's <Form>.
+export function SerialFormatFields({ codeField }: SerialFormatFieldsProps) {
+  const form = useFormContext<SerialConfigValues>();
+  const code = form.watch(codeField) || "CODE";
+  const reset = form.watch("sequenceReset") ?? "never";
+  const checkDigit = form.watch("checkDigit") ?? "none";
+
+  return (
+    <>
+      <FormField
+        control={form.control}
+        name="serialFormat"
+        render={({ field }) => {
+          const format = field.value?.trim() || DEFAULT_SERIAL_FORMAT;
+          const error = validateSerialFormat(format, reset);
+          return (
+            <FormItem>
+              <FormLabel>Serial Format</FormLabel>
+              <FormControl>
+                <Input placeholder={DEFAULT_SERIAL_FORMAT} {...field} value={field.value ?? ""} />
+              </FormControl>
+              <FormDescription>
+                Tokens: {"{code}"} {"{YYYY}"} {"{YY}"} {"{MM}"} {"{country}"} {"{order}"} {"{seq:N}"}.
+                {" "}{"{code}"} is required, with a separator beside it unless only fixed-width tokens are.
+              </FormDescription>
+              {error ? (
+                <p className="text-sm text-red-600">{error}</p>
+              ) : (
+                <p className="text-sm text-slate-600">
+                  Preview:{" "}
+                  <code className="px-2 py-1 bg-slate-100 rounded font-mono">
+                    {appendCheckDigit(renderSerialNumber(format, {
+                      code,
+                      date: new Date(),
+                      countryCode: "US",
+                      orderId: 1024,
+                      sequence: 1,
+                    }), checkDigit)}
+                  </code>
+                </p>
+              )}
+              <FormMessage />
+            </FormItem>
+          );
+        }}
+      />
+
+      <FormField
+        control={form.control}
+        name="sequenceReset"
+        render={({ field }) => (
+          <FormItem>
+            <FormLabel>Sequence Reset</FormLabel>
+            <Select onValueChange={field.onChange} value={field.value ?? "never"}>
+              <FormControl>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+              </FormControl>
+              <SelectContent>
+                <SelectItem value="never">Never</SelectItem>
+                <SelectItem value="yearly">Every January</SelectItem>
+                <SelectItem value="monthly">Every month</SelectItem>
+              </SelectContent>
+            </Select>
+            <FormMessage />
+          </FormItem>
+        )}
+      />
+
+      <FormField
+        control={form.control}
+        name="checkDigit"
+        render={({ field }) => (
+          <FormItem>
+            <FormLabel>Check Digit</FormLabel>
+            <Select onValueChange={field.onChange} value={field.value ?? "none"}>
+              <FormControl>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+              </FormControl>
+              <SelectContent>
+                {CHECK_DIGIT_ALGORITHMS.map((algorithm) => (
+                  <SelectItem key={algorithm} value={algorithm}>
+                    {CHECK_DIGIT_LABELS[algorithm]}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <FormMessage />
+          </FormItem>
+        )}
+      />
+    </>
+  );
+}
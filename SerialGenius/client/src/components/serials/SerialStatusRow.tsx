@@ -0,0 +1,115 @@
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { MoreHorizontal } from "lucide-react";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { cn } from "@/lib/utils";
+import type { Serial } from "@shared/schema";
+
+type SerialAction = "void" | "scrap" | "replace";
+
+interface SerialStatusRowProps {
+  serial: Serial;
+  // Other serials of the same order, used to resolve replacement links.
+  orderSerials: Serial[];
+  itemName?: string;
+  canEdit: boolean;
+  className?: string;
+}
+
+const getSerialStatusColor = (status: string) => {
+  switch (status) {
+    case "Voided": return "bg-red-100 text-red-800 hover:bg-red-200";
+    case "Scrapped": return "bg-orange-100 text-orange-800 hover:bg-orange-200";
+    case "Replaced": return "bg-slate-200 text-slate-800 hover:bg-slate-300";
+    default: return "bg-green-100 text-green-800 hover:bg-green-200";
+  }
+};
+
+export function SerialStatusRow({ serial, orderSerials, itemName, canEdit, className }: SerialStatusRowProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const statusMutation = useMutation({
+    mutationFn: async ({ action, reason }: { action: SerialAction; reason: string }) => {
+      const response = await apiRequest("POST", `/api/serials/${serial.id}/${action}`, { reason });
+      return response.json();
+    },
+    onSuccess: (_data, { action }) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/serials"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/orders", serial.orderId.toString()] });
+      toast({
+        title: action === "replace" ? "Replacement serial issued" : "Serial status updated",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to update serial",
+        description: error.message || "An error occurred",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleAction = (action: SerialAction) => {
+    const reason = prompt(`Reason to ${action} ${serial.serialNumber}:`);
+    if (reason && reason.trim()) {
+      statusMutation.mutate({ action, reason: reason.trim() });
+    }
+  };
+
+  const replaces = orderSerials.find(s => s.id === serial.replacesSerialId);
+  const replacedBy = orderSerials.find(s => s.replacesSerialId === serial.id);
+  const isActive = serial.status === "Active";
+
+  return (
+    <div className={cn("p-2 rounded text-sm", className)}>
+      <div className="flex justify-between items-center">
+        <span className={cn("font-mono font-medium", !isActive && "line-through text-slate-400")}>
+          {serial.serialNumber}
+        </span>
+        <div className="flex items-center space-x-2">
+          {!isActive && (
+            <Badge className={getSerialStatusColor(serial.status)}>{serial.status}</Badge>
+          )}
+          <span className="text-slate-600">{itemName}</span>
+          {canEdit && isActive && (
+            <DropdownMenu>
+              <DropdownMenuTrigger asChild>
+                <Button variant="ghost" size="sm" disabled={statusMutation.isPending}>
+                  <MoreHorizontal size={16} />
+                </Button>
+              </DropdownMenuTrigger>
+              <DropdownMenuContent align="end">
+                <DropdownMenuItem onClick={() => handleAction("replace")}>Replace</DropdownMenuItem>
+                <DropdownMenuItem onClick={() => handleAction("void")}>Void</DropdownMenuItem>
+                <DropdownMenuItem onClick={() => handleAction("scrap")}>Scrap</DropdownMenuItem>
+              </DropdownMenuContent>
+            </DropdownMenu>
+          )}
+        </div>
+      </div>
+
+      {(replaces || !isActive) && (
+        <div className="mt-1 space-y-0.5 text-xs text-slate-500">
+          {replaces && <p>Replaces {replaces.serialNumber}</p>}
+          {!isActive && (
+            <p>
+              {serial.status}
+              {serial.statusChangedAt && ` on ${new Date(serial.statusChangedAt).toLocaleDateString()}`}
+              {serial.statusReason && `: ${serial.statusReason}`}
+            </p>
+          )}
+          {replacedBy && <p>Replaced by {replacedBy.serialNumber}</p>}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,48 @@
+import { SerialStatusRow } from "./SerialStatusRow";
+import type { Serial } from "@shared/schema";
+
+interface SerialTreeProps {
+  // Every serial of the order.
+  serials: Serial[];
+  getItemName: (serial: Serial) => string | undefined;
+  canEdit: boolean;
+}
+
+interface SerialTreeNodeProps extends SerialTreeProps {
+  serial: Serial;
+}
+
+function SerialTreeNode({ serial, serials, getItemName, canEdit }: SerialTreeNodeProps) {
+  const children = serials.filter(s => s.parentSerialId === serial.id);
+  return (
+    <li className="space-y-2">
+      <SerialStatusRow
+        serial={serial}
+        orderSerials={serials}
+        itemName={getItemName(serial)}
+        canEdit={canEdit}
+        className={serial.machineId ? "bg-slate-50" : "bg-blue-50"}
+      />
+      {children.length > 0 && (
+        <ul className="ml-4 pl-4 border-l border-slate-200 space-y-2">
+          {children.map((child) => (
+            <SerialTreeNode key={child.id} serial={child} serials={serials} getItemName={getItemName} canEdit={canEdit} />
+          ))}
+        </ul>
+      )}
+    </li>
+  );
+}
+
+// Each unit of the order with the serials of the parts built into it, level
+// by level. Serials issued before parts were linked show up at the top level.
+export function SerialTree({ serials, getItemName, canEdit }: SerialTreeProps) {
+  const roots = serials.filter(s => !s.parentSerialId || !serials.some(parent => parent.id === s.parentSerialId));
+  return (
+    <ul className="space-y-4">
+      {roots.map((serial) => (
+        <SerialTreeNode key={serial.id} serial={serial} serials={serials} getItemName={getItemName} canEdit={canEdit} />
+      ))}
+    </ul>
+  );
+}
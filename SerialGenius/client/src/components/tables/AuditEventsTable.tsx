@@ -0,0 +1,176 @@
+import { useState } from "react";
+import { useQuery, keepPreviousData } from "@tanstack/react-query";
+import { Link } from "wouter";
+import { Input } from "@/components/ui/input";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Search } from "lucide-react";
+import { SortableTableHead, TablePagination, type ListSort } from "@/components/tables/ListControls";
+import { AUDIT_ACTION_LABELS, AuditActionBadge, AuditChanges, auditActorName } from "@/components/audit/AuditChanges";
+import { AUDIT_ACTIONS, AUDIT_ENTITY_TYPES } from "@shared/schema";
+import type { AuditAction, AuditEntityType, AuditEventListQuery, AuditEventWithActor, Page } from "@shared/schema";
+
+const PAGE_SIZE = 50;
+
+const ENTITY_LABELS: Record<AuditEntityType, string> = {
+  machine: "Machine",
+  panel: "Panel",
+  order: "Order",
+  order_line: "Order line",
+  serial: "Serial",
+  user: "User",
+};
+
+export function AuditEventsTable() {
+  const [searchTerm, setSearchTerm] = useState("");
+  const [entityType, setEntityType] = useState<AuditEntityType | undefined>();
+  const [action, setAction] = useState<AuditAction | undefined>();
+  const [from, setFrom] = useState("");
+  const [to, setTo] = useState("");
+  const [page, setPage] = useState(1);
+  const [sort, setSort] = useState<ListSort<AuditEventListQuery["sort"]>>({ sort: "createdAt", order: "desc" });
+
+  const { data: eventPage, isLoading } = useQuery<Page<AuditEventWithActor>>({
+    queryKey: ["/api/audit-events", { page, pageSize: PAGE_SIZE, search: searchTerm.trim(), entityType, action, from, to, ...sort }],
+    placeholderData: keepPreviousData,
+  });
+  const events = eventPage?.items ?? [];
+
+  const changeSort = (next: ListSort<AuditEventListQuery["sort"]>) => {
+    setSort(next);
+    setPage(1);
+  };
+
+  if (isLoading) {
+    return <div>Loading audit log...</div>;
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex flex-col lg:flex-row lg:justify-between lg:items-center gap-4">
+          <CardTitle className="text-lg md:text-xl">All Changes</CardTitle>
+          <div className="flex flex-wrap gap-2">
+            <div className="relative">
+              <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-slate-400" size={16} />
+              <Input
+                placeholder="Search by name..."
+                value={searchTerm}
+                onChange={(e) => {
+                  setSearchTerm(e.target.value);
+                  setPage(1);
+                }}
+                className="pl-10"
+              />
+            </div>
+            <Select
+              value={entityType ?? "all"}
+              onValueChange={(value) => {
+                setEntityType(value === "all" ? undefined : value as AuditEntityType);
+                setPage(1);
+              }}
+            >
+              <SelectTrigger className="w-36">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">Everything</SelectItem>
+                {AUDIT_ENTITY_TYPES.map((type) => (
+                  <SelectItem key={type} value={type}>{ENTITY_LABELS[type]}s</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Select
+              value={action ?? "all"}
+              onValueChange={(value) => {
+                setAction(value === "all" ? undefined : value as AuditAction);
+                setPage(1);
+              }}
+            >
+              <SelectTrigger className="w-36">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All actions</SelectItem>
+                {AUDIT_ACTIONS.map((a) => (
+                  <SelectItem key={a} value={a}>{AUDIT_ACTION_LABELS[a]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Input
+              type="date"
+              aria-label="Changed from"
+              value={from}
+              onChange={(e) => {
+                setFrom(e.target.value);
+                setPage(1);
+              }}
+              className="w-40"
+            />
+            <Input
+              type="date"
+              aria-label="Changed to"
+              value={to}
+              onChange={(e) => {
+                setTo(e.target.value);
+                setPage(1);
+              }}
+              className="w-40"
+            />
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent>
+        <div className="overflow-x-auto">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <SortableTableHead label="When" sortKey="createdAt" current={sort} onSortChange={changeSort} />
+                <TableHead>Who</TableHead>
+                <TableHead>What</TableHead>
+                <TableHead>Action</TableHead>
+                <TableHead>Changes</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {events.map((event) => (
+                <TableRow key={event.id}>
+                  <TableCell className="whitespace-nowrap">
+                    {event.createdAt ? new Date(event.createdAt).toLocaleString() : 'N/A'}
+                  </TableCell>
+                  <TableCell>{auditActorName(event)}</TableCell>
+                  <TableCell>
+                    <div className="text-sm text-slate-600">{ENTITY_LABELS[event.entityType]}</div>
+                    {event.orderId && event.action !== "delete" ? (
+                      <Link href={`/order/${event.orderId}`} className="font-medium text-primary hover:underline">
+                        {event.entityLabel}
+                      </Link>
+                    ) : (
+                      <div className="font-medium">{event.entityLabel}</div>
+                    )}
+                  </TableCell>
+                  <TableCell>
+                    <AuditActionBadge action={event.action} />
+                  </TableCell>
+                  <TableCell className="max-w-md">
+                    <AuditChanges event={event} />
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </div>
+        {events.length === 0 && (
+          <p className="py-6 text-center text-sm text-slate-500">No changes match these filters.</p>
+        )}
+        <TablePagination
+          page={page}
+          pageSize={PAGE_SIZE}
+          total={eventPage?.total ?? 0}
+          onPageChange={setPage}
+        />
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,66 @@
+import { Button } from "@/components/ui/button";
+import { TableHead } from "@/components/ui/table";
+import { ArrowDown, ArrowUp, ChevronLeft, ChevronRight } from "lucide-react";
+
+export interface ListSort<K extends string> {
+  sort: K;
+  order: "asc" | "desc";
+}
+
+interface SortableTableHeadProps<K extends string> {
+  label: string;
+  sortKey: K;
+  current: ListSort<K>;
+  onSortChange: (sort: ListSort<K>) => void;
+}
+
+// Header cell that sorts the server-side list by its column; clicking the
+// active column again flips the direction.
+export function SortableTableHead<K extends string>({ label, sortKey, current, onSortChange }: SortableTableHeadProps<K>) {
+  const isActive = current.sort === sortKey;
+  const toggle = () => onSortChange({
+    sort: sortKey,
+    order: isActive && current.order === "asc" ? "desc" : "asc",
+  });
+
+  return (
+    <TableHead>
+      <button type="button" onClick={toggle} className="inline-flex items-center space-x-1 hover:text-slate-900">
+        <span>{label}</span>
+        {isActive && (current.order === "asc" ? <ArrowUp size={14} /> : <ArrowDown size={14} />)}
+      </button>
+    </TableHead>
+  );
+}
+
+interface TablePaginationProps {
+  page: number;
+  pageSize: number;
+  total: number;
+  onPageChange: (page: number) => void;
+}
+
+export function TablePagination({ page, pageSize, total, onPageChange }: TablePaginationProps) {
+  const pageCount = Math.max(1, Math.ceil(total / pageSize));
+  const first = total === 0 ? 0 : (page - 1) * pageSize + 1;
+  const last = Math.min(page * pageSize, total);
+
+  return (
+    <div className="flex items-center justify-between pt-4 text-sm text-slate-600">
+      <span>
+        {first}–{last} of {total}
+      </span>
+      <div className="flex items-center space-x-2">
+        <Button variant="outline" size="sm" onClick={() => onPageChange(page - 1)} disabled={page <= 1}>
+          <ChevronLeft size={16} />
+        </Button>
+        <span>
+          Page {page} of {pageCount}
+        </span>
+        <Button variant="outline" size="sm" onClick={() => onPageChange(page + 1)} disabled={page >= pageCount}>
+          <ChevronRight size={16} />
+        </Button>
+      </div>
+    </div>
+  );
+}
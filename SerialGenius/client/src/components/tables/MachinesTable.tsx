@@ -1,35 +1,51 @@
 import { useState } from "react";
-import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { useQuery, useMutation, useQueryClient, keepPreviousData } from "@tanstack/react-query";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
 import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
-import { Settings, Search, Filter, Edit, Trash2, Plus } from "lucide-react";
+import { Settings, Search, Filter, Edit, Trash2, Plus, Cpu } from "lucide-react";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { z } from "zod";
 import { apiRequest } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
 import { useAuth } from "@/components/auth/AuthProvider";
-import { insertMachineSchema } from "@shared/schema";
-import type { Machine } from "@shared/schema";
+import { SerialFormatFields } from "@/components/serials/SerialFormatFields";
+import { BillOfMaterialsDialog } from "@/components/catalog/BillOfMaterialsDialog";
+import { SortableTableHead, TablePagination, type ListSort } from "@/components/tables/ListControls";
+import { insertMachineSchema, refineSerialConfig } from "@shared/schema";
+import { DEFAULT_SERIAL_FORMAT, sequencePeriod } from "@shared/serialFormat";
+import type { Machine, MachineListQuery, Page, SerialSequence } from "@shared/schema";
 
-const machineFormSchema = insertMachineSchema.omit({ addedBy: true });
+const machineFormSchema = insertMachineSchema.omit({ addedBy: true }).superRefine(refineSerialConfig);
 type MachineFormData = z.infer<typeof machineFormSchema>;
 
+const PAGE_SIZE = 25;
+
 export function MachinesTable() {
   const [searchTerm, setSearchTerm] = useState("");
+  const [page, setPage] = useState(1);
+  const [sort, setSort] = useState<ListSort<MachineListQuery["sort"]>>({ sort: "addedOn", order: "desc" });
   const [editingMachine, setEditingMachine] = useState<Machine | null>(null);
   const [showAddDialog, setShowAddDialog] = useState(false);
+  const [panelsMachine, setPanelsMachine] = useState<Machine | null>(null);
   
-  const { isAdmin } = useAuth();
+  const { can } = useAuth();
+  const canEditCatalog = can("catalog.edit");
   const { toast } = useToast();
   const queryClient = useQueryClient();
 
-  const { data: machines = [], isLoading } = useQuery<Machine[]>({
-    queryKey: ["/api/machines"],
+  const { data: machinePage, isLoading } = useQuery<Page<Machine>>({
+    queryKey: ["/api/machines", { page, pageSize: PAGE_SIZE, search: searchTerm.trim(), ...sort }],
+    placeholderData: keepPreviousData,
+  });
+  const machines = machinePage?.items ?? [];
+
+  const { data: sequences = [] } = useQuery<SerialSequence[]>({
+    queryKey: ["/api/serial-sequences"],
   });
 
   const form = useForm<MachineFormData>({
@@ -37,6 +53,9 @@ export function MachinesTable() {
     defaultValues: {
       name: "",
       productCode: "",
+      serialFormat: DEFAULT_SERIAL_FORMAT,
+      sequenceReset: "never",
+      checkDigit: "none",
     },
   });
 
@@ -86,6 +105,7 @@ export function MachinesTable() {
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["/api/machines"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/machine-panels"] });
       toast({ title: "Machine deleted successfully" });
     },
     onError: (error: any) => {
@@ -97,10 +117,17 @@ export function MachinesTable() {
     },
   });
 
-  const filteredMachines = machines.filter(machine =>
-    machine.name.toLowerCase().includes(searchTerm.toLowerCase()) ||
-    machine.productCode.toLowerCase().includes(searchTerm.toLowerCase())
-  );
+  const changeSort = (next: ListSort<MachineListQuery["sort"]>) => {
+    setSort(next);
+    setPage(1);
+  };
+
+  // Last sequence issued in the period new serials would currently fall into.
+  const getActiveCounter = (machine: Machine) => {
+    const period = sequencePeriod(machine.sequenceReset, new Date());
+    const sequence = sequences.find(s => s.prefix === machine.productCode && s.period === period);
+    return { period, lastValue: sequence?.lastValue ?? 0 };
+  };
 
   const handleSubmit = (data: MachineFormData) => {
     if (editingMachine) {
@@ -115,6 +142,9 @@ export function MachinesTable() {
     form.reset({
       name: machine.name,
       productCode: machine.productCode,
+      serialFormat: machine.serialFormat,
+      sequenceReset: machine.sequenceReset,
+      checkDigit: machine.checkDigit,
     });
   };
 
@@ -137,7 +167,7 @@ export function MachinesTable() {
   return (
     <div className="space-y-4 md:space-y-6">
       <div className="flex flex-col sm:flex-row sm:justify-between sm:items-center gap-4">
-        {isAdmin && (
+        {canEditCatalog && (
           <Dialog open={showAddDialog} onOpenChange={setShowAddDialog}>
             <DialogTrigger asChild>
               <Button className="w-full sm:w-auto">
@@ -180,6 +210,8 @@ export function MachinesTable() {
                     )}
                   />
                   
+                  <SerialFormatFields codeField="productCode" />
+                  
                   <div className="flex justify-end space-x-2">
                     <Button type="button" variant="outline" onClick={resetForm}>
                       Cancel
@@ -205,7 +237,10 @@ export function MachinesTable() {
                 <Input
                   placeholder="Search machines..."
                   value={searchTerm}
-                  onChange={(e) => setSearchTerm(e.target.value)}
+                  onChange={(e) => {
+                    setSearchTerm(e.target.value);
+                    setPage(1);
+                  }}
                   className="pl-10 w-full sm:w-64"
                 />
               </div>
@@ -220,14 +255,15 @@ export function MachinesTable() {
             <Table>
             <TableHeader>
               <TableRow>
-                <TableHead>Machine</TableHead>
-                <TableHead>Product Code</TableHead>
-                <TableHead>Date Added</TableHead>
-                {isAdmin && <TableHead>Actions</TableHead>}
+                <SortableTableHead label="Machine" sortKey="name" current={sort} onSortChange={changeSort} />
+                <SortableTableHead label="Product Code" sortKey="productCode" current={sort} onSortChange={changeSort} />
+                <TableHead>Current Sequence</TableHead>
+                <SortableTableHead label="Date Added" sortKey="addedOn" current={sort} onSortChange={changeSort} />
+                {canEditCatalog && <TableHead>Actions</TableHead>}
               </TableRow>
             </TableHeader>
             <TableBody>
-              {filteredMachines.map((machine) => (
+              {machines.map((machine) => (
                 <TableRow key={machine.id}>
                   <TableCell>
                     <div className="flex items-center">
@@ -242,10 +278,16 @@ export function MachinesTable() {
                       {machine.productCode}
                     </code>
                   </TableCell>
+                  <TableCell>
+                    <div className="font-medium">{getActiveCounter(machine).lastValue}</div>
+                    <div className="text-sm text-slate-600">
+                      {getActiveCounter(machine).period ? `Period ${getActiveCounter(machine).period}` : 'Never resets'}
+                    </div>
+                  </TableCell>
                   <TableCell>
                     {machine.addedOn ? new Date(machine.addedOn).toLocaleDateString() : 'N/A'}
                   </TableCell>
-                  {isAdmin && (
+                  {canEditCatalog && (
                     <TableCell>
                       <div className="flex space-x-2">
                         <Dialog 
@@ -295,6 +337,8 @@ export function MachinesTable() {
                                   )}
                                 />
                                 
+                                <SerialFormatFields codeField="productCode" />
+                                
                                 <div className="flex justify-end space-x-2">
                                   <Button type="button" variant="outline" onClick={resetForm}>
                                     Cancel
@@ -308,6 +352,15 @@ export function MachinesTable() {
                           </DialogContent>
                         </Dialog>
                         
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          title="Parts"
+                          onClick={() => setPanelsMachine(machine)}
+                        >
+                          <Cpu size={16} />
+                        </Button>
+                        
                         <Button
                           variant="ghost"
                           size="sm"
@@ -324,8 +377,16 @@ export function MachinesTable() {
             </TableBody>
           </Table>
           </div>
+          <TablePagination
+            page={page}
+            pageSize={PAGE_SIZE}
+            total={machinePage?.total ?? 0}
+            onPageChange={setPage}
+          />
         </CardContent>
       </Card>
+
+      <BillOfMaterialsDialog owner={panelsMachine && { machine: panelsMachine }} onClose={() => setPanelsMachine(null)} />
     </div>
   );
 }
@@ -1,5 +1,5 @@
 import { useState } from "react";
-import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { useQuery, useMutation, useQueryClient, keepPreviousData } from "@tanstack/react-query";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
@@ -7,42 +7,63 @@ import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
 import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
-import { Cpu, Search, Filter, Edit, Trash2, Plus } from "lucide-react";
+import { Cpu, Search, Edit, Trash2, Plus, Layers } from "lucide-react";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { z } from "zod";
 import { apiRequest } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
 import { useAuth } from "@/components/auth/AuthProvider";
-import { insertPanelSchema } from "@shared/schema";
-import type { Panel, Machine } from "@shared/schema";
+import { useBillOfMaterials, useMachines, usePanels, usePartStructure } from "@/hooks/use-catalog";
+import { SerialFormatFields } from "@/components/serials/SerialFormatFields";
+import { BillOfMaterialsDialog } from "@/components/catalog/BillOfMaterialsDialog";
+import { PART_KIND_LABELS, PartKindFields } from "@/components/catalog/PartKindFields";
+import { SortableTableHead, TablePagination, type ListSort } from "@/components/tables/ListControls";
+import { insertPanelSchema, PART_KINDS, refineSerialConfig } from "@shared/schema";
+import { DEFAULT_SERIAL_FORMAT } from "@shared/serialFormat";
+import type { Panel, PanelListQuery, Page, PartKind } from "@shared/schema";
 
-const panelFormSchema = insertPanelSchema.omit({ addedBy: true });
+const panelFormSchema = insertPanelSchema.omit({ addedBy: true }).superRefine(refineSerialConfig);
 type PanelFormData = z.infer<typeof panelFormSchema>;
 
+const PAGE_SIZE = 25;
+
 export function PanelsTable() {
   const [searchTerm, setSearchTerm] = useState("");
+  const [machineId, setMachineId] = useState<number | undefined>();
+  const [kind, setKind] = useState<PartKind | undefined>();
+  const [page, setPage] = useState(1);
+  const [sort, setSort] = useState<ListSort<PanelListQuery["sort"]>>({ sort: "addedOn", order: "desc" });
   const [editingPanel, setEditingPanel] = useState<Panel | null>(null);
   const [showAddDialog, setShowAddDialog] = useState(false);
+  const [partsPanel, setPartsPanel] = useState<Panel | null>(null);
   
-  const { isAdmin } = useAuth();
+  const { can } = useAuth();
+  const canEditCatalog = can("catalog.edit");
   const { toast } = useToast();
   const queryClient = useQueryClient();
 
-  const { data: panels = [], isLoading } = useQuery<Panel[]>({
-    queryKey: ["/api/panels"],
+  const { data: panelPage, isLoading } = useQuery<Page<Panel>>({
+    queryKey: ["/api/panels", { page, pageSize: PAGE_SIZE, search: searchTerm.trim(), machineId, kind, ...sort }],
+    placeholderData: keepPreviousData,
   });
+  const panels = panelPage?.items ?? [];
 
-  const { data: machines = [] } = useQuery<Machine[]>({
-    queryKey: ["/api/machines"],
-  });
+  const { data: machines = [] } = useMachines();
+  const { data: billOfMaterials = [] } = useBillOfMaterials();
+  const { data: partStructure = [] } = usePartStructure();
+  const { data: allPanels = [] } = usePanels();
 
   const form = useForm<PanelFormData>({
     resolver: zodResolver(panelFormSchema),
     defaultValues: {
       name: "",
       panelCode: "",
-      parentMachineId: 0,
+      kind: "panel",
+      serialised: true,
+      serialFormat: DEFAULT_SERIAL_FORMAT,
+      sequenceReset: "never",
+      checkDigit: "none",
     },
   });
 
@@ -92,9 +113,11 @@ export function PanelsTable() {
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["/api/panels"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/machine-panels"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/panel-parts"] });
       toast({ title: "Panel deleted successfully" });
     },
-    onError: (error: any) => {
+    onError: (error: Error) => {
       toast({
         title: "Failed to delete panel",
         description: error.message,
@@ -103,10 +126,10 @@ export function PanelsTable() {
     },
   });
 
-  const filteredPanels = panels.filter(panel =>
-    panel.name.toLowerCase().includes(searchTerm.toLowerCase()) ||
-    panel.panelCode.toLowerCase().includes(searchTerm.toLowerCase())
-  );
+  const changeSort = (next: ListSort<PanelListQuery["sort"]>) => {
+    setSort(next);
+    setPage(1);
+  };
 
   const handleSubmit = (data: PanelFormData) => {
     if (editingPanel) {
@@ -121,7 +144,11 @@ export function PanelsTable() {
     form.reset({
       name: panel.name,
       panelCode: panel.panelCode,
-      parentMachineId: panel.parentMachineId,
+      kind: panel.kind,
+      serialised: panel.serialised,
+      serialFormat: panel.serialFormat,
+      sequenceReset: panel.sequenceReset,
+      checkDigit: panel.checkDigit,
     });
   };
 
@@ -137,33 +164,41 @@ export function PanelsTable() {
     form.reset();
   };
 
-  const getMachineName = (machineId: number) => {
-    const machine = machines.find(m => m.id === machineId);
-    return machine ? machine.name : 'Unknown Machine';
+  // Machines and parts the part goes straight into.
+  const getUsedIn = (panelId: number) => {
+    const names = [
+      ...billOfMaterials
+        .filter(item => item.panelId === panelId)
+        .map(item => machines.find(m => m.id === item.machineId)?.name ?? 'Unknown Machine'),
+      ...partStructure
+        .filter(item => item.panelId === panelId)
+        .map(item => allPanels.find(p => p.id === item.parentPanelId)?.name ?? 'Unknown Part'),
+    ];
+    return names.length > 0 ? names.join(", ") : 'Not used';
   };
 
   if (isLoading) {
-    return <div>Loading panels...</div>;
+    return <div>Loading parts...</div>;
   }
 
   return (
     <div className="space-y-6">
       <div className="flex justify-between items-center">
         <div>
-          <h1 className="text-3xl font-bold text-slate-900">Panels</h1>
-          <p className="mt-2 text-slate-600">Manage control panels and their machine associations</p>
+          <h1 className="text-3xl font-bold text-slate-900">Parts</h1>
+          <p className="mt-2 text-slate-600">Manage assemblies, panels and components and what they go into</p>
         </div>
-        {isAdmin && (
+        {canEditCatalog && (
           <Dialog open={showAddDialog} onOpenChange={setShowAddDialog}>
             <DialogTrigger asChild>
               <Button>
                 <Plus className="mr-2" size={16} />
-                Add Panel
+                Add Part
               </Button>
             </DialogTrigger>
             <DialogContent>
               <DialogHeader>
-                <DialogTitle>Add New Panel</DialogTitle>
+                <DialogTitle>Add New Part</DialogTitle>
               </DialogHeader>
               <Form {...form}>
                 <form onSubmit={form.handleSubmit(handleSubmit)} className="space-y-4">
@@ -195,30 +230,9 @@ export function PanelsTable() {
                     )}
                   />
                   
-                  <FormField
-                    control={form.control}
-                    name="parentMachineId"
-                    render={({ field }) => (
-                      <FormItem>
-                        <FormLabel>Parent Machine</FormLabel>
-                        <Select onValueChange={(value) => field.onChange(Number(value))}>
-                          <FormControl>
-                            <SelectTrigger>
-                              <SelectValue placeholder="Select a machine" />
-                            </SelectTrigger>
-                          </FormControl>
-                          <SelectContent>
-                            {machines.map((machine) => (
-                              <SelectItem key={machine.id} value={machine.id.toString()}>
-                                {machine.name} ({machine.productCode})
-                              </SelectItem>
-                            ))}
-                          </SelectContent>
-                        </Select>
-                        <FormMessage />
-                      </FormItem>
-                    )}
-                  />
+                  <PartKindFields />
+                  
+                  <SerialFormatFields codeField="panelCode" />
                   
                   <div className="flex justify-end space-x-2">
                     <Button type="button" variant="outline" onClick={resetForm}>
@@ -238,20 +252,58 @@ export function PanelsTable() {
       <Card>
         <CardHeader>
           <div className="flex justify-between items-center">
-            <CardTitle>All Panels</CardTitle>
+            <CardTitle>All Parts</CardTitle>
             <div className="flex space-x-2">
               <div className="relative">
                 <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-slate-400" size={16} />
                 <Input
-                  placeholder="Search panels..."
+                  placeholder="Search parts..."
                   value={searchTerm}
-                  onChange={(e) => setSearchTerm(e.target.value)}
+                  onChange={(e) => {
+                    setSearchTerm(e.target.value);
+                    setPage(1);
+                  }}
                   className="pl-10"
                 />
               </div>
-              <Button variant="outline" size="sm">
-                <Filter size={16} />
-              </Button>
+              <Select
+                value={kind ?? "all"}
+                onValueChange={(value) => {
+                  setKind(value === "all" ? undefined : value as PartKind);
+                  setPage(1);
+                }}
+              >
+                <SelectTrigger className="w-40">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All kinds</SelectItem>
+                  {PART_KINDS.map((kind) => (
+                    <SelectItem key={kind} value={kind}>
+                      {PART_KIND_LABELS[kind]}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Select
+                value={machineId?.toString() ?? "all"}
+                onValueChange={(value) => {
+                  setMachineId(value === "all" ? undefined : Number(value));
+                  setPage(1);
+                }}
+              >
+                <SelectTrigger className="w-48">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All machines</SelectItem>
+                  {machines.map((machine) => (
+                    <SelectItem key={machine.id} value={machine.id.toString()}>
+                      {machine.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
             </div>
           </div>
         </CardHeader>
@@ -259,15 +311,16 @@ export function PanelsTable() {
           <Table>
             <TableHeader>
               <TableRow>
-                <TableHead>Panel</TableHead>
-                <TableHead>Panel Code</TableHead>
-                <TableHead>Parent Machine</TableHead>
-                <TableHead>Date Added</TableHead>
-                {isAdmin && <TableHead>Actions</TableHead>}
+                <SortableTableHead label="Part" sortKey="name" current={sort} onSortChange={changeSort} />
+                <SortableTableHead label="Part Code" sortKey="panelCode" current={sort} onSortChange={changeSort} />
+                <TableHead>Kind</TableHead>
+                <TableHead>Used In</TableHead>
+                <SortableTableHead label="Date Added" sortKey="addedOn" current={sort} onSortChange={changeSort} />
+                {canEditCatalog && <TableHead>Actions</TableHead>}
               </TableRow>
             </TableHeader>
             <TableBody>
-              {filteredPanels.map((panel) => (
+              {panels.map((panel) => (
                 <TableRow key={panel.id}>
                   <TableCell>
                     <div className="flex items-center">
@@ -282,11 +335,15 @@ export function PanelsTable() {
                       {panel.panelCode}
                     </code>
                   </TableCell>
-                  <TableCell>{getMachineName(panel.parentMachineId)}</TableCell>
+                  <TableCell>
+                    {PART_KIND_LABELS[panel.kind]}
+                    {!panel.serialised && <div className="text-sm text-slate-600">Not serialised</div>}
+                  </TableCell>
+                  <TableCell>{getUsedIn(panel.id)}</TableCell>
                   <TableCell>
                     {panel.addedOn ? new Date(panel.addedOn).toLocaleDateString() : 'N/A'}
                   </TableCell>
-                  {isAdmin && (
+                  {canEditCatalog && (
                     <TableCell>
                       <div className="flex space-x-2">
                         <Dialog 
@@ -336,30 +393,9 @@ export function PanelsTable() {
                                   )}
                                 />
                                 
-                                <FormField
-                                  control={form.control}
-                                  name="parentMachineId"
-                                  render={({ field }) => (
-                                    <FormItem>
-                                      <FormLabel>Parent Machine</FormLabel>
-                                      <Select onValueChange={(value) => field.onChange(Number(value))} value={field.value.toString()}>
-                                        <FormControl>
-                                          <SelectTrigger>
-                                            <SelectValue placeholder="Select a machine" />
-                                          </SelectTrigger>
-                                        </FormControl>
-                                        <SelectContent>
-                                          {machines.map((machine) => (
-                                            <SelectItem key={machine.id} value={machine.id.toString()}>
-                                              {machine.name} ({machine.productCode})
-                                            </SelectItem>
-                                          ))}
-                                        </SelectContent>
-                                      </Select>
-                                      <FormMessage />
-                                    </FormItem>
-                                  )}
-                                />
+                                <PartKindFields />
+                                
+                                <SerialFormatFields codeField="panelCode" />
                                 
                                 <div className="flex justify-end space-x-2">
                                   <Button type="button" variant="outline" onClick={resetForm}>
@@ -374,6 +410,15 @@ export function PanelsTable() {
                           </DialogContent>
                         </Dialog>
                         
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          title="Parts"
+                          onClick={() => setPartsPanel(panel)}
+                        >
+                          <Layers size={16} />
+                        </Button>
+                        
                         <Button
                           variant="ghost"
                           size="sm"
@@ -389,8 +434,16 @@ export function PanelsTable() {
               ))}
             </TableBody>
           </Table>
+          <TablePagination
+            page={page}
+            pageSize={PAGE_SIZE}
+            total={panelPage?.total ?? 0}
+            onPageChange={setPage}
+          />
         </CardContent>
       </Card>
+
+      <BillOfMaterialsDialog owner={partsPanel && { part: partsPanel }} onClose={() => setPartsPanel(null)} />
     </div>
   );
 }
@@ -0,0 +1,289 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { Edit, Plus, Trash2 } from "lucide-react";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/components/auth/AuthProvider";
+import { ADMIN_ROLE, PERMISSIONS, insertRoleSchema } from "@shared/schema";
+import type { Permission, Role } from "@shared/schema";
+
+type RoleFormData = z.infer<typeof insertRoleSchema>;
+
+const PERMISSION_LABELS: Record<Permission, string> = {
+  "catalog.edit": "Add, edit and delete machines and panels",
+  "orders.create": "Create orders",
+  "orders.edit": "Edit orders and their machines",
+  "orders.edit_payment": "Change an order's payment status",
+  "orders.delete": "Delete orders that have no serials",
+  "serials.reserve": "Reserve serial numbers",
+  "serials.void": "Void, scrap and replace serials",
+  "users.manage": "Manage users and roles",
+  "audit.view": "View the audit log",
+};
+
+export function RolesTable() {
+  // null while closed, "new" while adding, otherwise the role being edited
+  const [editing, setEditing] = useState<Role | "new" | null>(null);
+
+  const { can } = useAuth();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: roles = [], isLoading } = useQuery<Role[]>({
+    queryKey: ["/api/roles"],
+    enabled: can("users.manage"),
+  });
+
+  const form = useForm<RoleFormData>({
+    resolver: zodResolver(insertRoleSchema),
+    defaultValues: {
+      name: "",
+      description: "",
+      permissions: [],
+      requireTwoFactor: false,
+    },
+  });
+
+  const saveRoleMutation = useMutation({
+    mutationFn: async (data: RoleFormData) => {
+      if (editing === "new") {
+        const response = await apiRequest("POST", "/api/roles", data);
+        return response.json();
+      }
+      // Admin's permissions are fixed; the server rejects any attempt to send them.
+      const { name, permissions, ...changes } = data;
+      const response = await apiRequest(
+        "PATCH",
+        `/api/roles/${encodeURIComponent(name)}`,
+        name === ADMIN_ROLE ? changes : { ...changes, permissions },
+      );
+      return response.json();
+    },
+    onSuccess: (role: Role) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/roles"] });
+      toast({ title: `Role ${role.name} saved` });
+      closeDialog();
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to save role",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const deleteRoleMutation = useMutation({
+    mutationFn: async (name: string) => {
+      await apiRequest("DELETE", `/api/roles/${encodeURIComponent(name)}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/roles"] });
+      toast({ title: "Role deleted successfully" });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to delete role",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const openDialog = (role: Role | "new") => {
+    setEditing(role);
+    form.reset(role === "new"
+      ? { name: "", description: "", permissions: [], requireTwoFactor: false }
+      : {
+          name: role.name,
+          description: role.description,
+          permissions: role.permissions,
+          requireTwoFactor: role.requireTwoFactor,
+        });
+  };
+
+  const closeDialog = () => {
+    setEditing(null);
+    form.reset();
+  };
+
+  const handleDelete = (name: string) => {
+    if (confirm(`Are you sure you want to delete the ${name} role?`)) {
+      deleteRoleMutation.mutate(name);
+    }
+  };
+
+  const isAdminRole = editing !== null && editing !== "new" && editing.name === ADMIN_ROLE;
+
+  if (isLoading) {
+    return <div>Loading roles...</div>;
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex flex-col sm:flex-row sm:justify-between sm:items-center gap-4">
+          <CardTitle className="text-lg md:text-xl">Roles</CardTitle>
+          <Button variant="outline" size="sm" onClick={() => openDialog("new")}>
+            <Plus className="mr-2" size={16} />
+            Add Role
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent>
+        <div className="overflow-x-auto">
+          <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Role</TableHead>
+              <TableHead>Permissions</TableHead>
+              <TableHead>Actions</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {roles.map((role) => (
+              <TableRow key={role.name}>
+                <TableCell>
+                  <div className="font-medium">{role.name}</div>
+                  {role.description && <div className="text-sm text-slate-600">{role.description}</div>}
+                  {role.requireTwoFactor && <Badge variant="outline" className="mt-1">2FA required</Badge>}
+                </TableCell>
+                <TableCell>
+                  <div className="flex flex-wrap gap-1">
+                    {role.permissions.length === 0 && <span className="text-sm text-slate-500">Read-only</span>}
+                    {role.permissions.map((permission) => (
+                      <Badge key={permission} variant="secondary">{permission}</Badge>
+                    ))}
+                  </div>
+                </TableCell>
+                <TableCell>
+                  <div className="flex space-x-2">
+                    <Button variant="ghost" size="sm" onClick={() => openDialog(role)}>
+                      <Edit size={16} />
+                    </Button>
+                    {role.name !== ADMIN_ROLE && (
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => handleDelete(role.name)}
+                        disabled={deleteRoleMutation.isPending}
+                      >
+                        <Trash2 size={16} />
+                      </Button>
+                    )}
+                  </div>
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+        </div>
+      </CardContent>
+
+      <Dialog open={editing !== null} onOpenChange={(open) => !open && closeDialog()}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{editing === "new" ? "Add New Role" : `Edit ${form.getValues("name")}`}</DialogTitle>
+          </DialogHeader>
+          <Form {...form}>
+            <form onSubmit={form.handleSubmit((data) => saveRoleMutation.mutate(data))} className="space-y-4">
+              {editing === "new" && (
+                <FormField
+                  control={form.control}
+                  name="name"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Role Name</FormLabel>
+                      <FormControl>
+                        <Input placeholder="e.g. Field Service" {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              )}
+
+              <FormField
+                control={form.control}
+                name="description"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Description</FormLabel>
+                    <FormControl>
+                      <Input placeholder="Optional" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="permissions"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Permissions</FormLabel>
+                    <div className="space-y-2">
+                      {PERMISSIONS.map((permission) => (
+                        <label key={permission} className="flex items-center space-x-2 text-sm">
+                          <Checkbox
+                            disabled={isAdminRole}
+                            checked={isAdminRole || field.value.includes(permission)}
+                            onCheckedChange={(checked) => field.onChange(
+                              checked
+                                ? [...field.value, permission]
+                                : field.value.filter((p) => p !== permission),
+                            )}
+                          />
+                          <span>{PERMISSION_LABELS[permission]}</span>
+                        </label>
+                      ))}
+                    </div>
+                    {isAdminRole && (
+                      <p className="text-sm text-slate-500">The Admin role always has every permission.</p>
+                    )}
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="requireTwoFactor"
+                render={({ field }) => (
+                  <FormItem>
+                    <label className="flex items-center space-x-2 text-sm">
+                      <Checkbox checked={field.value} onCheckedChange={(checked) => field.onChange(checked === true)} />
+                      <span>Require two-factor authentication</span>
+                    </label>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <div className="flex justify-end space-x-2">
+                <Button type="button" variant="outline" onClick={closeDialog}>
+                  Cancel
+                </Button>
+                <Button type="submit" disabled={saveRoleMutation.isPending}>
+                  {saveRoleMutation.isPending ? "Saving..." : "Save Role"}
+                </Button>
+              </div>
+            </form>
+          </Form>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
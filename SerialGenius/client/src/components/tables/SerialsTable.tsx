@@ -1,29 +1,56 @@
 import { useState } from "react";
-import { useQuery } from "@tanstack/react-query";
+import { useQuery, keepPreviousData } from "@tanstack/react-query";
 import { Input } from "@/components/ui/input";
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
-import { Button } from "@/components/ui/button";
-import { Search, Filter, Hash } from "lucide-react";
-import type { Serial, Machine, Panel, Order } from "@shared/schema";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Search, Hash, AlertCircle } from "lucide-react";
+import { useMachines, usePanels } from "@/hooks/use-catalog";
+import { useDebouncedValue } from "@/hooks/use-debounced-value";
+import { SortableTableHead, TablePagination, type ListSort } from "@/components/tables/ListControls";
+import { isSerialNumberValid } from "@shared/checkDigit";
+import { SERIAL_STATUSES } from "@shared/schema";
+import type { Serial, SerialListQuery, SerialStatus, SerialWithRelations, Page } from "@shared/schema";
 
-interface SerialWithRelations extends Serial {
-  machine?: Machine;
-  panel?: Panel;
-  order?: Order;
-}
+const PAGE_SIZE = 50;
 
 export function SerialsTable() {
   const [searchTerm, setSearchTerm] = useState("");
-  
-  const { data: serials = [], isLoading } = useQuery<SerialWithRelations[]>({
-    queryKey: ["/api/serials"],
+  const [status, setStatus] = useState<SerialStatus | undefined>();
+  const [from, setFrom] = useState("");
+  const [to, setTo] = useState("");
+  const [page, setPage] = useState(1);
+  const [sort, setSort] = useState<ListSort<SerialListQuery["sort"]>>({ sort: "addedOn", order: "desc" });
+
+  // Searches once typing pauses rather than on every keystroke.
+  const search = useDebouncedValue(searchTerm.trim(), 400);
+  const { data: serialPage, isLoading, isPlaceholderData } = useQuery<Page<SerialWithRelations>>({
+    queryKey: ["/api/serials", { page, pageSize: PAGE_SIZE, search, status, from, to, ...sort }],
+    placeholderData: keepPreviousData,
   });
+  const serials = serialPage?.items ?? [];
 
-  const filteredSerials = serials.filter(serial =>
-    serial.serialNumber.toLowerCase().includes(searchTerm.toLowerCase())
-  );
+  const { data: machines = [] } = useMachines();
+  const { data: panels = [] } = usePanels();
+
+  const changeSort = (next: ListSort<SerialListQuery["sort"]>) => {
+    setSort(next);
+    setPage(1);
+  };
+
+  // A search with no hits whose check digit doesn't add up is almost certainly
+  // a typo rather than a serial we never issued. Only judged once the results
+  // shown are the ones for the term in the box.
+  const checkDigitRules = [
+    ...machines.map(m => ({ code: m.productCode, format: m.serialFormat, checkDigit: m.checkDigit })),
+    ...panels.map(p => ({ code: p.panelCode, format: p.serialFormat, checkDigit: p.checkDigit })),
+  ];
+  const searchIsMistyped = search !== "" &&
+    search === searchTerm.trim() &&
+    !isPlaceholderData &&
+    serialPage?.total === 0 &&
+    !isSerialNumberValid(search, checkDigitRules);
 
   const getSerialType = (serial: Serial) => {
     if (serial.machineId) return 'Machine';
@@ -65,36 +92,80 @@ export function SerialsTable() {
                 <Input
                   placeholder="Search serial numbers..."
                   value={searchTerm}
-                  onChange={(e) => setSearchTerm(e.target.value)}
+                  onChange={(e) => {
+                    setSearchTerm(e.target.value);
+                    setPage(1);
+                  }}
                   className="pl-10"
                 />
               </div>
-              <Button variant="outline" size="sm">
-                <Filter size={16} />
-              </Button>
+              <Select
+                value={status ?? "all"}
+                onValueChange={(value) => {
+                  setStatus(value === "all" ? undefined : value as SerialStatus);
+                  setPage(1);
+                }}
+              >
+                <SelectTrigger className="w-36">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All statuses</SelectItem>
+                  {SERIAL_STATUSES.map((s) => (
+                    <SelectItem key={s} value={s}>{s}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Input
+                type="date"
+                aria-label="Generated from"
+                value={from}
+                onChange={(e) => {
+                  setFrom(e.target.value);
+                  setPage(1);
+                }}
+                className="w-40"
+              />
+              <Input
+                type="date"
+                aria-label="Generated to"
+                value={to}
+                onChange={(e) => {
+                  setTo(e.target.value);
+                  setPage(1);
+                }}
+                className="w-40"
+              />
             </div>
           </div>
         </CardHeader>
         <CardContent>
+          {searchIsMistyped && (
+            <div className="flex items-center mb-4 p-3 rounded-lg bg-red-50 text-sm text-red-700">
+              <AlertCircle className="mr-2" size={16} />
+              "{search}" is not a valid serial number — its check digit doesn't match. Check for a mistyped character.
+            </div>
+          )}
           <Table>
             <TableHeader>
               <TableRow>
-                <TableHead>Serial Number</TableHead>
+                <SortableTableHead label="Serial Number" sortKey="serialNumber" current={sort} onSortChange={changeSort} />
                 <TableHead>Type</TableHead>
+                <TableHead>Status</TableHead>
                 <TableHead>Item</TableHead>
                 <TableHead>Order</TableHead>
-                <TableHead>Generated Date</TableHead>
+                <SortableTableHead label="Generated Date" sortKey="addedOn" current={sort} onSortChange={changeSort} />
               </TableRow>
             </TableHeader>
             <TableBody>
-              {filteredSerials.map((serial) => (
+              {serials.map((serial) => (
                 <TableRow key={serial.id}>
                   <TableCell>
                     <div className="flex items-center">
                       <div className="w-10 h-10 bg-primary/10 rounded-lg flex items-center justify-center mr-3">
                         <Hash className="text-primary" size={20} />
                       </div>
-                      <code className="px-2 py-1 bg-slate-100 rounded text-sm font-mono">
+                      <code className={`px-2 py-1 bg-slate-100 rounded text-sm font-mono ${serial.status !== 'Active' ? 'line-through text-slate-400' : ''}`}>
                         {serial.serialNumber}
                       </code>
                     </div>
@@ -104,6 +175,11 @@ export function SerialsTable() {
                       {getSerialType(serial)}
                     </Badge>
                   </TableCell>
+                  <TableCell>
+                    <Badge variant={serial.status === 'Active' ? 'secondary' : 'destructive'}>
+                      {serial.status}
+                    </Badge>
+                  </TableCell>
                   <TableCell>
                     {serial.machine?.name || serial.panel?.name || 'Unknown'}
                   </TableCell>
@@ -124,6 +200,12 @@ export function SerialsTable() {
               ))}
             </TableBody>
           </Table>
+          <TablePagination
+            page={page}
+            pageSize={PAGE_SIZE}
+            total={serialPage?.total ?? 0}
+            onPageChange={setPage}
+          />
         </CardContent>
       </Card>
     </div>
@@ -0,0 +1,536 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient, keepPreviousData } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Search, Edit, Plus, UserX, UserCheck, KeyRound, MonitorSmartphone, ShieldOff } from "lucide-react";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/components/auth/AuthProvider";
+import { UserSessionsDialog } from "@/components/auth/UserSessionsDialog";
+import { SortableTableHead, TablePagination, type ListSort } from "@/components/tables/ListControls";
+import { ADMIN_ROLE, insertUserSchema, updateUserSchema } from "@shared/schema";
+import { passwordSchema } from "@shared/password";
+import type { Page, PublicUser, Role, UserListQuery } from "@shared/schema";
+
+const createUserFormSchema = insertUserSchema.extend({
+  password: passwordSchema,
+});
+type CreateUserFormData = z.infer<typeof createUserFormSchema>;
+
+const editUserFormSchema = updateUserSchema.omit({ isActive: true, mustChangePassword: true }).required({ email: true, role: true });
+type EditUserFormData = z.infer<typeof editUserFormSchema>;
+
+const PAGE_SIZE = 25;
+
+export function UsersTable() {
+  const [searchTerm, setSearchTerm] = useState("");
+  const [role, setRole] = useState<string>();
+  const [page, setPage] = useState(1);
+  const [sort, setSort] = useState<ListSort<UserListQuery["sort"]>>({ sort: "username", order: "asc" });
+  const [editingUser, setEditingUser] = useState<PublicUser | null>(null);
+  const [showAddDialog, setShowAddDialog] = useState(false);
+  const [sessionsUser, setSessionsUser] = useState<PublicUser | null>(null);
+
+  const { user: currentUser, can } = useAuth();
+  const canManageUsers = can("users.manage");
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: userPage, isLoading } = useQuery<Page<PublicUser>>({
+    queryKey: ["/api/users", { page, pageSize: PAGE_SIZE, search: searchTerm.trim(), role, ...sort }],
+    placeholderData: keepPreviousData,
+    enabled: canManageUsers,
+  });
+  const users = userPage?.items ?? [];
+
+  const { data: roles = [] } = useQuery<Role[]>({
+    queryKey: ["/api/roles"],
+    enabled: canManageUsers,
+  });
+
+  const createForm = useForm<CreateUserFormData>({
+    resolver: zodResolver(createUserFormSchema),
+    defaultValues: {
+      username: "",
+      email: "",
+      phone: "",
+      password: "",
+      role: "Tech",
+      mustChangePassword: true,
+    },
+  });
+
+  const editForm = useForm<EditUserFormData>({
+    resolver: zodResolver(editUserFormSchema),
+    defaultValues: {
+      email: "",
+      phone: "",
+      role: "Tech",
+    },
+  });
+
+  const createUserMutation = useMutation({
+    mutationFn: async (data: CreateUserFormData) => {
+      const response = await apiRequest("POST", "/api/users", data);
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/users"] });
+      toast({ title: "User created successfully" });
+      setShowAddDialog(false);
+      createForm.reset();
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to create user",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const updateUserMutation = useMutation({
+    mutationFn: async ({ id, data }: { id: number; data: Partial<PublicUser> }) => {
+      const response = await apiRequest("PATCH", `/api/users/${id}`, data);
+      return response.json();
+    },
+    onSuccess: (user: PublicUser) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/users"] });
+      toast({ title: `User ${user.username} updated` });
+      setEditingUser(null);
+      editForm.reset();
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to update user",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const resetTwoFactorMutation = useMutation({
+    mutationFn: async (user: PublicUser) => {
+      await apiRequest("DELETE", `/api/users/${user.id}/2fa`);
+    },
+    onSuccess: (_, user) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/users"] });
+      toast({ title: `Two-factor authentication reset for ${user.username}` });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to reset two-factor authentication",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const changeSort = (next: ListSort<UserListQuery["sort"]>) => {
+    setSort(next);
+    setPage(1);
+  };
+
+  const handleEdit = (user: PublicUser) => {
+    setEditingUser(user);
+    editForm.reset({
+      email: user.email,
+      phone: user.phone ?? "",
+      role: user.role,
+    });
+  };
+
+  const handleToggleActive = (user: PublicUser) => {
+    if (user.isActive && !confirm(`Deactivate ${user.username}? They will no longer be able to sign in.`)) {
+      return;
+    }
+    updateUserMutation.mutate({ id: user.id, data: { isActive: !user.isActive } });
+  };
+
+  const handleRequirePasswordChange = (user: PublicUser) => {
+    if (confirm(`Make ${user.username} choose a new password the next time they sign in?`)) {
+      updateUserMutation.mutate({ id: user.id, data: { mustChangePassword: true } });
+    }
+  };
+
+  const handleResetTwoFactor = (user: PublicUser) => {
+    if (confirm(`Turn off two-factor authentication for ${user.username}? Use this when they've lost their authenticator app and recovery codes.`)) {
+      resetTwoFactorMutation.mutate(user);
+    }
+  };
+
+  const resetCreateForm = () => {
+    setShowAddDialog(false);
+    createForm.reset();
+  };
+
+  if (!canManageUsers) {
+    return <div>You don't have permission to manage users.</div>;
+  }
+
+  if (isLoading) {
+    return <div>Loading users...</div>;
+  }
+
+  return (
+    <div className="space-y-4 md:space-y-6">
+      <div className="flex flex-col sm:flex-row sm:justify-between sm:items-center gap-4">
+        <Dialog open={showAddDialog} onOpenChange={setShowAddDialog}>
+          <DialogTrigger asChild>
+            <Button className="w-full sm:w-auto">
+              <Plus className="mr-2" size={16} />
+              <span className="hidden xs:inline">Add User</span>
+              <span className="xs:hidden">Add</span>
+            </Button>
+          </DialogTrigger>
+          <DialogContent>
+            <DialogHeader>
+              <DialogTitle>Add New User</DialogTitle>
+            </DialogHeader>
+            <Form {...createForm}>
+              <form onSubmit={createForm.handleSubmit((data) => createUserMutation.mutate(data))} className="space-y-4">
+                <FormField
+                  control={createForm.control}
+                  name="username"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Username</FormLabel>
+                      <FormControl>
+                        <Input placeholder="Enter username" {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                <FormField
+                  control={createForm.control}
+                  name="email"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Email</FormLabel>
+                      <FormControl>
+                        <Input type="email" placeholder="Enter email" {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                <FormField
+                  control={createForm.control}
+                  name="phone"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Phone</FormLabel>
+                      <FormControl>
+                        <Input placeholder="Optional" {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                <FormField
+                  control={createForm.control}
+                  name="password"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Initial Password</FormLabel>
+                      <FormControl>
+                        <Input type="password" {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                <FormField
+                  control={createForm.control}
+                  name="mustChangePassword"
+                  render={({ field }) => (
+                    <FormItem className="flex items-center space-x-2 space-y-0">
+                      <FormControl>
+                        <Checkbox checked={field.value} onCheckedChange={(checked) => field.onChange(checked === true)} />
+                      </FormControl>
+                      <FormLabel className="font-normal">Must change password at first sign-in</FormLabel>
+                    </FormItem>
+                  )}
+                />
+
+                <FormField
+                  control={createForm.control}
+                  name="role"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Role</FormLabel>
+                      <Select value={field.value} onValueChange={field.onChange}>
+                        <FormControl>
+                          <SelectTrigger>
+                            <SelectValue />
+                          </SelectTrigger>
+                        </FormControl>
+                        <SelectContent>
+                          {roles.map((r) => (
+                            <SelectItem key={r.name} value={r.name}>{r.name}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                <div className="flex justify-end space-x-2">
+                  <Button type="button" variant="outline" onClick={resetCreateForm}>
+                    Cancel
+                  </Button>
+                  <Button type="submit" disabled={createUserMutation.isPending}>
+                    {createUserMutation.isPending ? "Creating..." : "Create User"}
+                  </Button>
+                </div>
+              </form>
+            </Form>
+          </DialogContent>
+        </Dialog>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <div className="flex flex-col sm:flex-row sm:justify-between sm:items-center gap-4">
+            <CardTitle className="text-lg md:text-xl">All Users</CardTitle>
+            <div className="flex flex-col sm:flex-row gap-2 sm:gap-2">
+              <div className="relative">
+                <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-slate-400" size={16} />
+                <Input
+                  placeholder="Search users..."
+                  value={searchTerm}
+                  onChange={(e) => {
+                    setSearchTerm(e.target.value);
+                    setPage(1);
+                  }}
+                  className="pl-10 w-full sm:w-64"
+                />
+              </div>
+              <Select
+                value={role ?? "all"}
+                onValueChange={(value) => {
+                  setRole(value === "all" ? undefined : value);
+                  setPage(1);
+                }}
+              >
+                <SelectTrigger className="w-36">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All roles</SelectItem>
+                  {roles.map((r) => (
+                    <SelectItem key={r.name} value={r.name}>{r.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+        </CardHeader>
+        <CardContent>
+          <div className="overflow-x-auto">
+            <Table>
+            <TableHeader>
+              <TableRow>
+                <SortableTableHead label="Username" sortKey="username" current={sort} onSortChange={changeSort} />
+                <TableHead>Email</TableHead>
+                <TableHead>Role</TableHead>
+                <TableHead>Status</TableHead>
+                <SortableTableHead label="Created" sortKey="createdAt" current={sort} onSortChange={changeSort} />
+                <TableHead>Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {users.map((user) => (
+                <TableRow key={user.id} className={user.isActive ? undefined : "opacity-60"}>
+                  <TableCell className="font-medium">{user.username}</TableCell>
+                  <TableCell>
+                    <div>{user.email}</div>
+                    {user.phone && <div className="text-sm text-slate-600">{user.phone}</div>}
+                  </TableCell>
+                  <TableCell>
+                    <Badge variant={user.role === ADMIN_ROLE ? 'default' : 'secondary'}>{user.role}</Badge>
+                  </TableCell>
+                  <TableCell>
+                    <div className="flex flex-wrap gap-1">
+                      <Badge variant={user.isActive ? 'secondary' : 'destructive'}>
+                        {user.isActive ? 'Active' : 'Deactivated'}
+                      </Badge>
+                      {user.mustChangePassword && <Badge variant="outline">Password change pending</Badge>}
+                      {user.totpEnabledAt && <Badge variant="outline">2FA</Badge>}
+                    </div>
+                  </TableCell>
+                  <TableCell>
+                    {user.createdAt ? new Date(user.createdAt).toLocaleDateString() : 'N/A'}
+                  </TableCell>
+                  <TableCell>
+                    <div className="flex space-x-2">
+                      <Dialog
+                        open={editingUser?.id === user.id}
+                        onOpenChange={(open) => !open && setEditingUser(null)}
+                      >
+                        <DialogTrigger asChild>
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => handleEdit(user)}
+                          >
+                            <Edit size={16} />
+                          </Button>
+                        </DialogTrigger>
+                        <DialogContent>
+                          <DialogHeader>
+                            <DialogTitle>Edit {user.username}</DialogTitle>
+                          </DialogHeader>
+                          <Form {...editForm}>
+                            <form
+                              onSubmit={editForm.handleSubmit((data) => updateUserMutation.mutate({ id: user.id, data }))}
+                              className="space-y-4"
+                            >
+                              <FormField
+                                control={editForm.control}
+                                name="email"
+                                render={({ field }) => (
+                                  <FormItem>
+                                    <FormLabel>Email</FormLabel>
+                                    <FormControl>
+                                      <Input type="email" {...field} />
+                                    </FormControl>
+                                    <FormMessage />
+                                  </FormItem>
+                                )}
+                              />
+
+                              <FormField
+                                control={editForm.control}
+                                name="phone"
+                                render={({ field }) => (
+                                  <FormItem>
+                                    <FormLabel>Phone</FormLabel>
+                                    <FormControl>
+                                      <Input placeholder="Optional" {...field} />
+                                    </FormControl>
+                                    <FormMessage />
+                                  </FormItem>
+                                )}
+                              />
+
+                              <FormField
+                                control={editForm.control}
+                                name="role"
+                                render={({ field }) => (
+                                  <FormItem>
+                                    <FormLabel>Role</FormLabel>
+                                    <Select
+                                      value={field.value}
+                                      onValueChange={field.onChange}
+                                      disabled={user.id === currentUser?.id}
+                                    >
+                                      <FormControl>
+                                        <SelectTrigger>
+                                          <SelectValue />
+                                        </SelectTrigger>
+                                      </FormControl>
+                                      <SelectContent>
+                                        {roles.map((r) => (
+                                          <SelectItem key={r.name} value={r.name}>{r.name}</SelectItem>
+                                        ))}
+                                      </SelectContent>
+                                    </Select>
+                                    <FormMessage />
+                                  </FormItem>
+                                )}
+                              />
+
+                              <div className="flex justify-end space-x-2">
+                                <Button type="button" variant="outline" onClick={() => setEditingUser(null)}>
+                                  Cancel
+                                </Button>
+                                <Button type="submit" disabled={updateUserMutation.isPending}>
+                                  {updateUserMutation.isPending ? "Updating..." : "Update User"}
+                                </Button>
+                              </div>
+                            </form>
+                          </Form>
+                        </DialogContent>
+                      </Dialog>
+
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        title="Sessions"
+                        onClick={() => setSessionsUser(user)}
+                      >
+                        <MonitorSmartphone size={16} />
+                      </Button>
+
+                      {user.isActive && !user.mustChangePassword && user.id !== currentUser?.id && (
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          title="Require password change"
+                          onClick={() => handleRequirePasswordChange(user)}
+                          disabled={updateUserMutation.isPending}
+                        >
+                          <KeyRound size={16} />
+                        </Button>
+                      )}
+
+                      {user.totpEnabledAt && user.id !== currentUser?.id && (
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          title="Reset two-factor"
+                          onClick={() => handleResetTwoFactor(user)}
+                          disabled={resetTwoFactorMutation.isPending}
+                        >
+                          <ShieldOff size={16} />
+                        </Button>
+                      )}
+
+                      {user.id !== currentUser?.id && (
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          title={user.isActive ? "Deactivate" : "Reactivate"}
+                          onClick={() => handleToggleActive(user)}
+                          disabled={updateUserMutation.isPending}
+                        >
+                          {user.isActive ? <UserX size={16} /> : <UserCheck size={16} />}
+                        </Button>
+                      )}
+                    </div>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+          </div>
+          <TablePagination
+            page={page}
+            pageSize={PAGE_SIZE}
+            total={userPage?.total ?? 0}
+            onPageChange={setPage}
+          />
+        </CardContent>
+      </Card>
+
+      <UserSessionsDialog user={sessionsUser} onClose={() => setSessionsUser(null)} />
+    </div>
+  );
+}
@@ -0,0 +1,32 @@
+import { useQuery } from "@tanstack/react-query";
+import type { MachineLookup, MachinePanel, PanelLookup, PanelPart } from "@shared/schema";
+
+// The whole catalog, unpaged and cut down to what pickers and name lookups
+// need. The paginated catalog tables query their own pages.
+export function useMachines() {
+  return useQuery<MachineLookup[]>({
+    queryKey: ["/api/machines", "lookup"],
+  });
+}
+
+export function usePanels() {
+  return useQuery<PanelLookup[]>({
+    queryKey: ["/api/panels", "lookup"],
+  });
+}
+
+// Every machine's bill of materials. Small next to the catalog itself, so
+// it's fetched whole rather than per machine.
+export function useBillOfMaterials() {
+  return useQuery<MachinePanel[]>({
+    queryKey: ["/api/machine-panels"],
+  });
+}
+
+// What every part is built from, the levels of the tree below the machines'
+// bills of materials.
+export function usePartStructure() {
+  return useQuery<PanelPart[]>({
+    queryKey: ["/api/panel-parts"],
+  });
+}
@@ -0,0 +1,14 @@
+import { useEffect, useState } from "react";
+
+// `value` as it was once it stopped changing for `delay` ms. Compared with
+// Object.is, so debounce primitives (e.g. a JSON key) rather than fresh objects.
+export function useDebouncedValue<T>(value: T, delay: number): T {
+  const [debounced, setDebounced] = useState(value);
+
+  useEffect(() => {
+    const timer = setTimeout(() => setDebounced(value), delay);
+    return () => clearTimeout(timer);
+  }, [value, delay]);
+
+  return debounced;
+}
@@ -1,73 +1,118 @@
-import { User } from "@shared/schema";
+import type { CurrentUser, Permission, TwoFactorChallenge } from "@shared/schema";
 
-interface AuthResponse {
-  token: string;
-  user: Omit<User, 'password'>;
+interface SessionTokens {
+  accessToken: string;
+  refreshToken: string;
+}
+
+interface AuthResponse extends SessionTokens {
+  user: CurrentUser;
+}
+
+// Runs `refresh` while holding a lock every tab of the app shares. The Web
+// Locks API only exists in secure contexts; without it tabs can't coordinate.
+function withRefreshLock(refresh: () => Promise<boolean>): Promise<boolean> {
+  return navigator.locks ? navigator.locks.request('auth_refresh', refresh) : refresh();
 }
 
 export class AuthService {
   private token: string | null = null;
-  private user: Omit<User, 'password'> | null = null;
+  private refreshToken: string | null = null;
+  private user: CurrentUser | null = null;
+  // Shared by every request that hits an expired access token at once, since
+  // a refresh token can only be spent once.
+  private refreshing: Promise<boolean> | null = null;
+  private sessionEndedListeners = new Set<() => void>();
 
   constructor() {
     this.token = localStorage.getItem('auth_token');
+    this.refreshToken = localStorage.getItem('refresh_token');
   }
 
-  async login(username: string, password: string): Promise<AuthResponse> {
-    const response = await fetch('/api/auth/login', {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({ username, password }),
-    });
-
-    if (!response.ok) {
-      const error = await response.json();
-      throw new Error(error.message || 'Login failed');
+  // Signs in, unless the user has two-factor on: then the challenge is
+  // returned for verifyTwoFactor.
+  async login(username: string, password: string): Promise<AuthResponse | TwoFactorChallenge> {
+    const data: AuthResponse | TwoFactorChallenge = await this.postLogin('/api/auth/login', { username, password });
+    if ('twoFactorRequired' in data) {
+      return data;
     }
+    this.startSession(data);
+    return data;
+  }
 
-    const data: AuthResponse = await response.json();
-    this.token = data.token;
-    this.user = data.user;
-    localStorage.setItem('auth_token', data.token);
+  async verifyTwoFactor(challengeToken: string, code: string): Promise<AuthResponse> {
+    const data: AuthResponse = await this.postLogin('/api/auth/login/verify', { challengeToken, code });
+    this.startSession(data);
     return data;
   }
 
   async logout(): Promise<void> {
-    this.token = null;
-    this.user = null;
-    localStorage.removeItem('auth_token');
+    // Another tab may have rotated the refresh token since this one read it.
+    const refreshToken = localStorage.getItem('refresh_token') ?? this.refreshToken;
+    this.clearSession();
+    if (refreshToken) {
+      // Best effort; the session expires on its own if this doesn't arrive.
+      await fetch('/api/auth/logout', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ refreshToken }),
+      }).catch(() => undefined);
+    }
   }
 
-  async getCurrentUser(): Promise<Omit<User, 'password'> | null> {
-    if (!this.token) return null;
+  async getCurrentUser(): Promise<CurrentUser | null> {
+    if (!this.token && !this.refreshToken) return null;
 
     try {
-      const response = await fetch('/api/auth/me', {
-        headers: {
-          'Authorization': `Bearer ${this.token}`,
-        },
-      });
+      const response = await this.fetch('/api/auth/me');
 
       if (!response.ok) {
-        this.logout();
         return null;
       }
 
       this.user = await response.json();
       return this.user;
     } catch (error) {
-      this.logout();
       return null;
     }
   }
 
+  // fetch with the access token attached. When the access token has expired
+  // it is refreshed and the request retried once; if the session can't be
+  // refreshed the user is signed out.
+  async fetch(url: string, init: RequestInit = {}): Promise<Response> {
+    const send = () => {
+      const headers = new Headers(init.headers);
+      if (this.token) {
+        headers.set('Authorization', `Bearer ${this.token}`);
+      }
+      return fetch(url, { ...init, headers, credentials: "include" });
+    };
+
+    const response = await send();
+    if (response.status !== 401) {
+      return response;
+    }
+
+    if (await this.refresh()) {
+      return await send();
+    }
+    this.endSession();
+    return response;
+  }
+
+  // Subscribes to the session ending without the user logging out, e.g.
+  // because an admin revoked it. Returns an unsubscribe function.
+  onSessionEnded(listener: () => void): () => void {
+    this.sessionEndedListeners.add(listener);
+    return () => this.sessionEndedListeners.delete(listener);
+  }
+
   getToken(): string | null {
     return this.token;
   }
 
-  getUser(): Omit<User, 'password'> | null {
+  getUser(): CurrentUser | null {
     return this.user;
   }
 
@@ -75,8 +120,91 @@ export class AuthService {
     return !!this.token;
   }
 
-  isAdmin(): boolean {
-    return this.user?.role === 'Admin';
+  can(permission: Permission): boolean {
+    return this.user?.permissions.includes(permission) ?? false;
+  }
+
+  private async postLogin(url: string, body: unknown) {
+    const response = await fetch(url, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify(body),
+    });
+
+    if (!response.ok) {
+      const error = await response.json();
+      throw new Error(error.message || 'Login failed');
+    }
+    return await response.json();
+  }
+
+  private startSession(data: AuthResponse) {
+    this.storeTokens(data);
+    this.user = data.user;
+  }
+
+  private refresh(): Promise<boolean> {
+    if (!this.refreshing) {
+      this.refreshing = this.requestRefresh().finally(() => {
+        this.refreshing = null;
+      });
+    }
+    return this.refreshing;
+  }
+
+  // Tabs share the tokens in localStorage, and spending a refresh token twice
+  // revokes the session. So refreshes take turns across tabs, and a tab whose
+  // tokens another tab has already rotated picks up the new ones instead.
+  private async requestRefresh(): Promise<boolean> {
+    const expiredToken = this.token;
+    return await withRefreshLock(async () => {
+      const accessToken = localStorage.getItem('auth_token');
+      const refreshToken = localStorage.getItem('refresh_token');
+      if (!refreshToken) return false;
+      if (accessToken && accessToken !== expiredToken) {
+        this.token = accessToken;
+        this.refreshToken = refreshToken;
+        return true;
+      }
+
+      try {
+        const response = await fetch('/api/auth/refresh', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ refreshToken }),
+        });
+        if (!response.ok) return false;
+        this.storeTokens(await response.json());
+        return true;
+      } catch (error) {
+        return false;
+      }
+    });
+  }
+
+  private storeTokens(tokens: SessionTokens) {
+    this.token = tokens.accessToken;
+    this.refreshToken = tokens.refreshToken;
+    localStorage.setItem('auth_token', tokens.accessToken);
+    localStorage.setItem('refresh_token', tokens.refreshToken);
+  }
+
+  private clearSession() {
+    this.token = null;
+    this.refreshToken = null;
+    this.user = null;
+    localStorage.removeItem('auth_token');
+    localStorage.removeItem('refresh_token');
+  }
+
+  private endSession() {
+    const wasSignedIn = !!this.user;
+    this.clearSession();
+    if (wasSignedIn) {
+      this.sessionEndedListeners.forEach(listener => listener());
+    }
   }
 }
 
@@ -1,9 +1,25 @@
 import { QueryClient, QueryFunction } from "@tanstack/react-query";
+import { authService } from "./auth";
+
+// Keeps the status and parsed JSON body of a failed request for callers that
+// need more than the message.
+export class ApiError extends Error {
+  constructor(public status: number, public body: unknown, text: string) {
+    super(`${status}: ${text}`);
+    this.name = "ApiError";
+  }
+}
 
 async function throwIfResNotOk(res: Response) {
   if (!res.ok) {
     const text = (await res.text()) || res.statusText;
-    throw new Error(`${res.status}: ${text}`);
+    let body: unknown;
+    try {
+      body = JSON.parse(text);
+    } catch {
+      body = undefined;
+    }
+    throw new ApiError(res.status, body, text);
   }
 }
 
@@ -12,45 +28,50 @@ export async function apiRequest(
   url: string,
   data?: unknown | undefined,
 ): Promise<Response> {
-  const token = localStorage.getItem('auth_token');
   const headers: Record<string, string> = {};
   
   if (data) {
     headers["Content-Type"] = "application/json";
   }
-  
-  if (token) {
-    headers["Authorization"] = `Bearer ${token}`;
-  }
 
-  const res = await fetch(url, {
+  const res = await authService.fetch(url, {
     method,
     headers,
     body: data ? JSON.stringify(data) : undefined,
-    credentials: "include",
   });
 
   await throwIfResNotOk(res);
   return res;
 }
 
+// Query keys are URL segments, optionally followed by an object of query
+// parameters: ["/api/orders", { page: 2 }] fetches /api/orders?page=2 and is
+// still invalidated along with ["/api/orders"].
+export function buildQueryUrl(queryKey: readonly unknown[]): string {
+  const segments: string[] = [];
+  const params = new URLSearchParams();
+  for (const part of queryKey) {
+    if (part !== null && typeof part === "object") {
+      for (const [key, value] of Object.entries(part)) {
+        if (value !== undefined && value !== null && value !== "") {
+          params.set(key, String(value));
+        }
+      }
+    } else {
+      segments.push(String(part));
+    }
+  }
+  const query = params.toString();
+  return segments.join("/") + (query ? `?${query}` : "");
+}
+
 type UnauthorizedBehavior = "returnNull" | "throw";
 export const getQueryFn: <T>(options: {
   on401: UnauthorizedBehavior;
 }) => QueryFunction<T> =
   ({ on401: unauthorizedBehavior }) =>
   async ({ queryKey }) => {
-    const token = localStorage.getItem('auth_token');
-    const headers: Record<string, string> = {};
-    
-    if (token) {
-      headers["Authorization"] = `Bearer ${token}`;
-    }
-
-    const res = await fetch(queryKey.join("/") as string, {
-      headers,
-      credentials: "include",
-    });
+    const res = await authService.fetch(buildQueryUrl(queryKey));
 
     if (unauthorizedBehavior === "returnNull" && res.status === 401) {
       return null;
@@ -1,42 +1,67 @@
 import { useState } from "react";
-import { useQuery } from "@tanstack/react-query";
+import { useQuery, keepPreviousData } from "@tanstack/react-query";
 import { useLocation } from "wouter";
 import { Card, CardContent } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Navbar } from "@/components/layout/Navbar";
 import { OrderCard } from "@/components/orders/OrderCard";
 import { AddOrderModal } from "@/components/orders/AddOrderModal";
+import { TablePagination } from "@/components/tables/ListControls";
 import { 
   ShoppingCart, 
   CheckCircle, 
   Clock, 
   Hash,
   Download,
-  Plus
+  Plus,
+  Search
 } from "lucide-react";
 import { useAuth } from "@/components/auth/AuthProvider";
-import type { Order, Country } from "@shared/schema";
+import type { Country, OrderListQuery, OrderWithCountry, Page, Serial } from "@shared/schema";
+import { ORDER_STATUSES } from "@shared/orderLifecycle";
 
-interface OrderWithCountry extends Order {
-  country?: Country;
-}
+const PAGE_SIZE = 12;
 
 export function Dashboard() {
   const [showAddOrderModal, setShowAddOrderModal] = useState(false);
   const [, setLocation] = useLocation();
-  const { isAdmin } = useAuth();
+  const [searchTerm, setSearchTerm] = useState("");
+  const [progressStatus, setProgressStatus] = useState<OrderListQuery["progressStatus"]>();
+  const [countryId, setCountryId] = useState<number | undefined>();
+  const [page, setPage] = useState(1);
+  const { can } = useAuth();
+
+  const { data: orderPage, isLoading } = useQuery<Page<OrderWithCountry>>({
+    queryKey: ["/api/orders", { page, pageSize: PAGE_SIZE, search: searchTerm.trim(), progressStatus, countryId }],
+    placeholderData: keepPreviousData,
+  });
+  const orders = orderPage?.items ?? [];
 
-  const { data: orders = [], isLoading } = useQuery<OrderWithCountry[]>({
-    queryKey: ["/api/orders"],
+  const { data: countries = [] } = useQuery<Country[]>({
+    queryKey: ["/api/countries"],
+  });
+
+  // The stats only need totals, so each asks for a single-row page.
+  const { data: allOrders } = useQuery<Page<OrderWithCountry>>({
+    queryKey: ["/api/orders", { pageSize: 1 }],
+  });
+  const { data: closedOrders } = useQuery<Page<OrderWithCountry>>({
+    queryKey: ["/api/orders", { pageSize: 1, progressStatus: "Closed" }],
+  });
+  const { data: inProductionOrders } = useQuery<Page<OrderWithCountry>>({
+    queryKey: ["/api/orders", { pageSize: 1, progressStatus: "In Production" }],
+  });
+  const { data: allSerials } = useQuery<Page<Serial>>({
+    queryKey: ["/api/serials", { pageSize: 1 }],
   });
 
   const stats = {
-    totalOrders: orders.length,
-    completedOrders: orders.filter(o => o.progressStatus === 'Completed').length,
-    pendingOrders: orders.filter(o => o.progressStatus === 'In Progress').length,
-    serialsGenerated: orders.reduce((sum, order) => {
-      return sum + order.machines.reduce((machineSum, machine) => machineSum + machine.quantity, 0);
-    }, 0) * 2, // Approximate: machines + panels
+    totalOrders: allOrders?.total ?? 0,
+    closedOrders: closedOrders?.total ?? 0,
+    inProductionOrders: inProductionOrders?.total ?? 0,
+    serialsGenerated: allSerials?.total ?? 0,
   };
 
   return (
@@ -51,7 +76,7 @@ export function Dashboard() {
             <p className="mt-1 md:mt-2 text-sm md:text-base text-slate-600">Manage your manufacturing orders and serial numbers</p>
           </div>
           <div className="flex flex-col sm:flex-row gap-2 sm:gap-3">
-            {isAdmin && (
+            {can("orders.create") && (
               <Button onClick={() => setShowAddOrderModal(true)} className="w-full sm:w-auto">
                 <Plus className="mr-2" size={16} />
                 <span className="hidden xs:inline">Add New Order</span>
@@ -88,8 +113,8 @@ export function Dashboard() {
                   <CheckCircle className="text-emerald-600" size={20} />
                 </div>
                 <div className="ml-3 md:ml-4">
-                  <p className="text-xl md:text-2xl font-bold text-slate-900">{stats.completedOrders}</p>
-                  <p className="text-slate-600 text-xs md:text-sm">Completed</p>
+                  <p className="text-xl md:text-2xl font-bold text-slate-900">{stats.closedOrders}</p>
+                  <p className="text-slate-600 text-xs md:text-sm">Closed</p>
                 </div>
               </div>
             </CardContent>
@@ -102,8 +127,8 @@ export function Dashboard() {
                   <Clock className="text-amber-600" size={20} />
                 </div>
                 <div className="ml-3 md:ml-4">
-                  <p className="text-xl md:text-2xl font-bold text-slate-900">{stats.pendingOrders}</p>
-                  <p className="text-slate-600 text-xs md:text-sm">In Progress</p>
+                  <p className="text-xl md:text-2xl font-bold text-slate-900">{stats.inProductionOrders}</p>
+                  <p className="text-slate-600 text-xs md:text-sm">In Production</p>
                 </div>
               </div>
             </CardContent>
@@ -124,13 +149,65 @@ export function Dashboard() {
           </Card>
         </div>
 
+        {/* Filters */}
+        <div className="flex flex-col sm:flex-row gap-2 mb-4">
+          <div className="relative flex-1">
+            <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-slate-400" size={16} />
+            <Input
+              placeholder="Search customer, quote or invoice..."
+              value={searchTerm}
+              onChange={(e) => {
+                setSearchTerm(e.target.value);
+                setPage(1);
+              }}
+              className="pl-10"
+            />
+          </div>
+          <Select
+            value={progressStatus ?? "all"}
+            onValueChange={(value) => {
+              setProgressStatus(value === "all" ? undefined : value as OrderListQuery["progressStatus"]);
+              setPage(1);
+            }}
+          >
+            <SelectTrigger className="sm:w-44">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">All statuses</SelectItem>
+              {ORDER_STATUSES.map((status) => (
+                <SelectItem key={status} value={status}>{status}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Select
+            value={countryId?.toString() ?? "all"}
+            onValueChange={(value) => {
+              setCountryId(value === "all" ? undefined : Number(value));
+              setPage(1);
+            }}
+          >
+            <SelectTrigger className="sm:w-44">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">All countries</SelectItem>
+              {countries.map((country) => (
+                <SelectItem key={country.id} value={country.id.toString()}>
+                  {country.name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
         {/* Orders Grid */}
         {isLoading ? (
           <div className="text-center py-8">Loading orders...</div>
         ) : orders.length === 0 ? (
           <Card>
             <CardContent className="text-center py-8">
-              <p className="text-slate-600">No orders found. {isAdmin && "Create your first order to get started."}</p>
+              <p className="text-slate-600">No orders found. {can("orders.create") && "Create your first order to get started."}</p>
             </CardContent>
           </Card>
         ) : (
@@ -144,6 +221,14 @@ export function Dashboard() {
             ))}
           </div>
         )}
+        {orders.length > 0 && (
+          <TablePagination
+            page={page}
+            pageSize={PAGE_SIZE}
+            total={orderPage?.total ?? 0}
+            onPageChange={setPage}
+          />
+        )}
       </main>
       
       <AddOrderModal
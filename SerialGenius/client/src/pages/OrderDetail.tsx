@@ -1,5 +1,5 @@
 import { useState } from "react";
-import { useParams, Link } from "wouter";
+import { useParams, Link, useLocation } from "wouter";
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
@@ -8,13 +8,29 @@ import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
-import { ArrowLeft, Edit, Save, X, Package, FileText } from "lucide-react";
+import { ArrowLeft, Edit, Save, X, Package, FileText, Trash2 } from "lucide-react";
 import { useAuth } from "@/components/auth/AuthProvider";
 import { useToast } from "@/hooks/use-toast";
-import { apiRequest } from "@/lib/queryClient";
-import type { Order, Machine, Country, Panel, Serial } from "@shared/schema";
+import { useBillOfMaterials, useMachines, usePanels } from "@/hooks/use-catalog";
+import { ApiError, apiRequest } from "@/lib/queryClient";
+import { SerialStatusRow } from "@/components/serials/SerialStatusRow";
+import { SerialDecisionPanel, type SerialDecisionAction } from "@/components/serials/SerialDecisionPanel";
+import { OrderHistory } from "@/components/orders/OrderHistory";
+import { OrderLineFields, formatConfiguration, orderLineDraft } from "@/components/orders/OrderLineFields";
+import { OrderLinePanels } from "@/components/orders/OrderLinePanels";
+import { SerialTree } from "@/components/serials/SerialTree";
+import { OrderStatusActions } from "@/components/orders/OrderStatusActions";
+import { OrderStatusBadge } from "@/components/orders/OrderStatusBadge";
+import { isFinalOrderStatus } from "@shared/orderLifecycle";
+import type {
+  Country,
+  OrderWithRelations,
+  PendingSerialDecision,
+  UpdatedOrder,
+} from "@shared/schema";
 
 const orderUpdateSchema = z.object({
   customerName: z.string().min(1, "Customer name is required"),
@@ -22,23 +38,41 @@ const orderUpdateSchema = z.object({
   state: z.string().min(1, "State/Province is required"),
   countryId: z.number().min(1, "Please select a country"),
   quoteNumber: z.string().min(1, "Quote number is required"),
-  invoiceNumber: z.string().min(1, "Invoice number is required"),
+  invoiceNumber: z.string(),
   dueDate: z.string().min(1, "Due date is required"),
-  progressStatus: z.enum(["Pending", "In Progress", "Completed", "Confirmed"]),
   paymentStatus: z.enum(["Pending", "Partial", "Paid"]),
+  lines: z.array(z.object({
+    id: z.number().optional(),
+    machineId: z.number(),
+    quantity: z.number().int().min(0),
+    unitPrice: z.number().nonnegative().nullable(),
+    notes: z.string(),
+    configuration: z.record(z.string()),
+    optionalPanelIds: z.array(z.number()),
+  })).refine(lines => lines.some(line => line.quantity > 0), "At least one machine is required"),
 });
 
 type OrderUpdateData = z.infer<typeof orderUpdateSchema>;
 
-interface OrderWithRelations extends Order {
-  country?: Country;
-  serials?: Serial[];
+// The 409 an update gets when it lowers quantities without saying which
+// serials to retire.
+function isSerialDecisionError(error: unknown): error is ApiError & { body: { message: string; pending: PendingSerialDecision[] } } {
+  if (!(error instanceof ApiError) || error.status !== 409) return false;
+  const body = error.body as { message?: unknown; pending?: unknown } | undefined;
+  return typeof body?.message === "string" && Array.isArray(body.pending);
 }
 
 export function OrderDetail() {
   const { orderId } = useParams<{ orderId: string }>();
+  const [, setLocation] = useLocation();
   const [isEditing, setIsEditing] = useState(false);
-  const { isAdmin } = useAuth();
+  const [pendingDecisions, setPendingDecisions] = useState<PendingSerialDecision[]>([]);
+  const [decisionSerialIds, setDecisionSerialIds] = useState<number[]>([]);
+  const [decisionAction, setDecisionAction] = useState<SerialDecisionAction>("void");
+  const [decisionReason, setDecisionReason] = useState("");
+  const { can } = useAuth();
+  const canEditOrder = can("orders.edit");
+  const canEditPayment = can("orders.edit_payment");
   const { toast } = useToast();
   const queryClient = useQueryClient();
 
@@ -51,18 +85,10 @@ export function OrderDetail() {
     queryKey: ["/api/countries"],
   });
 
-  const { data: machines = [] } = useQuery<Machine[]>({
-    queryKey: ["/api/machines"],
-  });
+  const { data: machines = [] } = useMachines();
 
-  const { data: panels = [] } = useQuery<Panel[]>({
-    queryKey: ["/api/panels"],
-  });
-
-  const { data: serials = [] } = useQuery<Serial[]>({
-    queryKey: ["/api/serials"],
-    select: (data) => data.filter((serial: Serial) => serial.orderId === Number(orderId)),
-  });
+  const { data: panels = [] } = usePanels();
+  const { data: billOfMaterials = [] } = useBillOfMaterials();
 
   const form = useForm<OrderUpdateData>({
     resolver: zodResolver(orderUpdateSchema),
@@ -74,30 +100,70 @@ export function OrderDetail() {
       quoteNumber: order.quoteNumber,
       invoiceNumber: order.invoiceNumber,
       dueDate: new Date(order.dueDate).toISOString().split('T')[0],
-      progressStatus: order.progressStatus,
       paymentStatus: order.paymentStatus,
+      lines: order.lines.map(orderLineDraft),
     } : undefined,
   });
+  // The server refuses line changes once an order is closed or cancelled.
+  const linesLocked = !!order && isFinalOrderStatus(order.progressStatus);
+
+  const linesEdited = (lines: OrderUpdateData["lines"]) =>
+    !!order && JSON.stringify(lines) !== JSON.stringify(order.lines.map(orderLineDraft));
+
+  const resetDecisions = () => {
+    setPendingDecisions([]);
+    setDecisionSerialIds([]);
+    setDecisionAction("void");
+    setDecisionReason("");
+  };
 
   const updateOrderMutation = useMutation({
-    mutationFn: async (data: OrderUpdateData) => {
+    mutationFn: async (data: OrderUpdateData): Promise<UpdatedOrder> => {
+      const { paymentStatus, ...orderData } = data;
       const response = await apiRequest("PATCH", `/api/orders/${orderId}`, {
-        ...data,
+        ...orderData,
+        ...(canEditPayment && { paymentStatus }),
         countryId: Number(data.countryId),
         dueDate: new Date(data.dueDate).toISOString(),
+        // Lines are only sent when edited, so saving other fields never
+        // issues or retires serials.
+        ...(!linesLocked && linesEdited(data.lines) && { lines: data.lines.filter(line => line.quantity > 0) }),
+        serialDecisions: decisionSerialIds.map(serialId => ({
+          serialId,
+          action: decisionAction,
+          reason: decisionReason.trim(),
+        })),
       });
       return response.json();
     },
-    onSuccess: () => {
+    onSuccess: ({ serialChanges }) => {
       queryClient.invalidateQueries({ queryKey: ["/api/orders", orderId] });
       queryClient.invalidateQueries({ queryKey: ["/api/orders"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/serials"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/serial-sequences"] });
+      const summary = [
+        serialChanges.issued.length > 0 && `${serialChanges.issued.length} serial(s) issued`,
+        serialChanges.voided.length > 0 && `${serialChanges.voided.length} voided`,
+        serialChanges.scrapped.length > 0 && `${serialChanges.scrapped.length} scrapped`,
+      ].filter(Boolean).join(", ");
       toast({
         title: "Order updated successfully",
-        description: "All changes have been saved",
+        description: summary || "All changes have been saved",
       });
+      resetDecisions();
       setIsEditing(false);
     },
-    onError: (error: any) => {
+    onError: (error: Error) => {
+      if (isSerialDecisionError(error)) {
+        setPendingDecisions(error.body.pending);
+        setDecisionSerialIds([]);
+        toast({
+          title: "Choose serials to retire",
+          description: error.body.message,
+          variant: "destructive",
+        });
+        return;
+      }
       toast({
         title: "Failed to update order",
         description: error.message || "An error occurred",
@@ -106,10 +172,71 @@ export function OrderDetail() {
     },
   });
 
+  // For users who may record payments but not otherwise edit the order.
+  const updatePaymentMutation = useMutation({
+    mutationFn: async (paymentStatus: OrderUpdateData["paymentStatus"]) => {
+      const response = await apiRequest("PATCH", `/api/orders/${orderId}`, { paymentStatus });
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/orders", orderId] });
+      queryClient.invalidateQueries({ queryKey: ["/api/orders"] });
+      toast({ title: "Payment status updated" });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to update payment status",
+        description: error.message || "An error occurred",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const deleteOrderMutation = useMutation({
+    mutationFn: async () => {
+      await apiRequest("DELETE", `/api/orders/${orderId}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/orders"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/serials"] });
+      toast({
+        title: "Order deleted successfully",
+      });
+      setLocation("/");
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to delete order",
+        description: error.message || "An error occurred",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleDelete = () => {
+    if (confirm("Are you sure you want to delete this order?")) {
+      deleteOrderMutation.mutate();
+    }
+  };
+
   const onSubmit = (data: OrderUpdateData) => {
+    if (pendingDecisions.length > 0 && decisionSerialIds.length > 0 && !decisionReason.trim()) {
+      toast({
+        title: "A reason is required",
+        description: "Say why the selected serials are being retired",
+        variant: "destructive",
+      });
+      return;
+    }
     updateOrderMutation.mutate(data);
   };
 
+  const cancelEditing = () => {
+    form.reset();
+    resetDecisions();
+    setIsEditing(false);
+  };
+
   if (orderLoading) {
     return (
       <div className="min-h-screen bg-slate-50 p-4 md:p-6">
@@ -143,16 +270,6 @@ export function OrderDetail() {
     );
   }
 
-  const getStatusColor = (status: string) => {
-    switch (status) {
-      case "Pending": return "bg-amber-100 text-amber-800 hover:bg-amber-200";
-      case "In Progress": return "bg-blue-100 text-blue-800 hover:bg-blue-200";
-      case "Completed": return "bg-green-100 text-green-800 hover:bg-green-200";
-      case "Confirmed": return "bg-purple-100 text-purple-800 hover:bg-purple-200";
-      default: return "bg-slate-100 text-slate-800 hover:bg-slate-200";
-    }
-  };
-
   const getPaymentColor = (status: string) => {
     switch (status) {
       case "Pending": return "bg-red-100 text-red-800 hover:bg-red-200";
@@ -163,23 +280,53 @@ export function OrderDetail() {
   };
 
   const getMachinesWithQuantities = () => {
-    if (!order.machines) return [];
-    return order.machines.map(orderMachine => {
-      const machine = machines.find(m => m.id === orderMachine.machineId);
+    return order.lines.map(line => {
+      const machine = machines.find(m => m.id === line.machineId);
       return {
         machine,
-        quantity: orderMachine.quantity,
+        line,
       };
     });
   };
 
-  const getAttachedPanels = () => {
-    const selectedMachineIds = order.machines?.map(m => m.machineId) || [];
-    return panels.filter(panel => selectedMachineIds.includes(panel.parentMachineId));
+  // Panels the order's machines are built with, totalled over its lines.
+  const getOrderPanels = () => {
+    const orderPanels = new Map<number, { quantity: number; optional: boolean }>();
+    for (const line of order.lines) {
+      for (const item of billOfMaterials.filter(item => item.machineId === line.machineId)) {
+        if (item.optional && !line.optionalPanelIds.includes(item.panelId)) continue;
+        const total = orderPanels.get(item.panelId) ?? { quantity: 0, optional: false };
+        orderPanels.set(item.panelId, {
+          quantity: total.quantity + item.quantity * line.quantity,
+          optional: total.optional || item.optional,
+        });
+      }
+    }
+    return Array.from(orderPanels, ([panelId, total]) => ({ panel: panels.find(p => p.id === panelId), ...total }));
+  };
+
+  const getDecisionItemName = (item: { machineId?: number; panelId?: number }) => item.machineId
+    ? machines.find(m => m.id === item.machineId)?.name
+    : panels.find(p => p.id === item.panelId)?.name;
+
+  const editedLines = form.watch("lines") ?? [];
+
+  const updateLine = (index: number, changes: Partial<OrderUpdateData["lines"][number]>) => {
+    form.setValue("lines", editedLines.map((line, i) => i === index ? { ...line, ...changes } : line), {
+      shouldValidate: true,
+    });
+  };
+
+  const addLine = (machineId: number) => {
+    form.setValue("lines", [...editedLines, { machineId, quantity: 1, unitPrice: null, notes: "", configuration: {}, optionalPanelIds: [] }], {
+      shouldValidate: true,
+    });
   };
 
+  const serials = order.serials;
   const machineSerials = serials.filter(s => s.machineId);
   const panelSerials = serials.filter(s => s.panelId);
+  const activeSerials = serials.filter(s => s.status === "Active");
 
   return (
     <div className="min-h-screen bg-slate-50 p-4 md:p-6">
@@ -203,12 +350,12 @@ export function OrderDetail() {
             </div>
           </div>
           
-          {isAdmin && (
+          {(canEditOrder || can("orders.delete")) && (
             <div className="flex items-center space-x-2">
               {isEditing ? (
                 <>
                   <Button 
-                    onClick={() => setIsEditing(false)} 
+                    onClick={cancelEditing} 
                     variant="outline" 
                     size="sm"
                     disabled={updateOrderMutation.isPending}
@@ -226,10 +373,25 @@ export function OrderDetail() {
                   </Button>
                 </>
               ) : (
-                <Button onClick={() => setIsEditing(true)} size="sm">
-                  <Edit className="mr-2 h-4 w-4" />
-                  Edit Order
-                </Button>
+                <>
+                  {can("orders.delete") && order.serials.length === 0 && (
+                    <Button
+                      onClick={handleDelete}
+                      variant="outline"
+                      size="sm"
+                      disabled={deleteOrderMutation.isPending}
+                    >
+                      <Trash2 className="mr-2 h-4 w-4" />
+                      Delete Order
+                    </Button>
+                  )}
+                  {canEditOrder && (
+                    <Button onClick={() => setIsEditing(true)} size="sm">
+                      <Edit className="mr-2 h-4 w-4" />
+                      Edit Order
+                    </Button>
+                  )}
+                </>
               )}
             </div>
           )}
@@ -359,53 +521,28 @@ export function OrderDetail() {
                       )}
                     />
 
-                    <div className="grid grid-cols-2 gap-4">
-                      <FormField
-                        control={form.control}
-                        name="progressStatus"
-                        render={({ field }) => (
-                          <FormItem>
-                            <FormLabel>Progress Status</FormLabel>
-                            <Select onValueChange={field.onChange} value={field.value}>
-                              <FormControl>
-                                <SelectTrigger>
-                                  <SelectValue />
-                                </SelectTrigger>
-                              </FormControl>
-                              <SelectContent>
-                                <SelectItem value="Pending">Pending</SelectItem>
-                                <SelectItem value="In Progress">In Progress</SelectItem>
-                                <SelectItem value="Completed">Completed</SelectItem>
-                                <SelectItem value="Confirmed">Confirmed</SelectItem>
-                              </SelectContent>
-                            </Select>
-                            <FormMessage />
-                          </FormItem>
-                        )}
-                      />
-                      <FormField
-                        control={form.control}
-                        name="paymentStatus"
-                        render={({ field }) => (
-                          <FormItem>
-                            <FormLabel>Payment Status</FormLabel>
-                            <Select onValueChange={field.onChange} value={field.value}>
-                              <FormControl>
-                                <SelectTrigger>
-                                  <SelectValue />
-                                </SelectTrigger>
-                              </FormControl>
-                              <SelectContent>
-                                <SelectItem value="Pending">Pending</SelectItem>
-                                <SelectItem value="Partial">Partial</SelectItem>
-                                <SelectItem value="Paid">Paid</SelectItem>
-                              </SelectContent>
-                            </Select>
-                            <FormMessage />
-                          </FormItem>
-                        )}
-                      />
-                    </div>
+                    <FormField
+                      control={form.control}
+                      name="paymentStatus"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>Payment Status</FormLabel>
+                          <Select onValueChange={field.onChange} value={field.value} disabled={!canEditPayment}>
+                            <FormControl>
+                              <SelectTrigger>
+                                <SelectValue />
+                              </SelectTrigger>
+                            </FormControl>
+                            <SelectContent>
+                              <SelectItem value="Pending">Pending</SelectItem>
+                              <SelectItem value="Partial">Partial</SelectItem>
+                              <SelectItem value="Paid">Paid</SelectItem>
+                            </SelectContent>
+                          </Select>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
                   </div>
                 </Form>
               ) : (
@@ -417,12 +554,27 @@ export function OrderDetail() {
                   </div>
 
                   <div className="flex flex-wrap gap-2">
-                    <Badge className={getStatusColor(order.progressStatus)}>
-                      {order.progressStatus}
-                    </Badge>
-                    <Badge className={getPaymentColor(order.paymentStatus)}>
-                      {order.paymentStatus}
-                    </Badge>
+                    <OrderStatusBadge status={order.progressStatus} />
+                    {canEditPayment && !canEditOrder ? (
+                      <Select
+                        value={order.paymentStatus}
+                        onValueChange={(value) => updatePaymentMutation.mutate(value as OrderUpdateData["paymentStatus"])}
+                        disabled={updatePaymentMutation.isPending}
+                      >
+                        <SelectTrigger className="h-7 w-32 text-xs" aria-label="Payment status">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="Pending">Pending</SelectItem>
+                          <SelectItem value="Partial">Partial</SelectItem>
+                          <SelectItem value="Paid">Paid</SelectItem>
+                        </SelectContent>
+                      </Select>
+                    ) : (
+                      <Badge className={getPaymentColor(order.paymentStatus)}>
+                        {order.paymentStatus}
+                      </Badge>
+                    )}
                   </div>
 
                   <div className="grid grid-cols-2 gap-4 text-sm">
@@ -432,7 +584,7 @@ export function OrderDetail() {
                     </div>
                     <div>
                       <p className="text-slate-600">Invoice Number:</p>
-                      <p className="font-medium">{order.invoiceNumber}</p>
+                      <p className="font-medium">{order.invoiceNumber || 'Not invoiced'}</p>
                     </div>
                     <div>
                       <p className="text-slate-600">Due Date:</p>
@@ -445,6 +597,8 @@ export function OrderDetail() {
                       </p>
                     </div>
                   </div>
+
+                  {canEditOrder && <OrderStatusActions order={order} />}
                 </div>
               )}
             </CardContent>
@@ -462,37 +616,117 @@ export function OrderDetail() {
               <div className="space-y-4">
                 <div>
                   <h4 className="font-medium text-slate-900 mb-2">Ordered Machines</h4>
-                  <div className="space-y-2">
-                    {getMachinesWithQuantities().map(({ machine, quantity }, index) => (
-                      <div key={index} className="flex justify-between items-center p-3 bg-slate-50 rounded-lg">
-                        <div>
-                          <p className="font-medium">{machine?.name || 'Unknown Machine'}</p>
-                          <p className="text-sm text-slate-600">Code: {machine?.productCode}</p>
-                        </div>
-                        <div className="text-right">
-                          <p className="font-medium">Qty: {quantity}</p>
-                          <p className="text-sm text-slate-600">
-                            {machineSerials.filter(s => s.machineId === machine?.id).length} serials
-                          </p>
+                  {isEditing && !linesLocked ? (
+                    <Form {...form}>
+                      <FormField
+                        control={form.control}
+                        name="lines"
+                        render={() => (
+                          <FormItem className="space-y-2">
+                            {editedLines.map((line, index) => {
+                              const machine = machines.find(m => m.id === line.machineId);
+                              return (
+                                <div key={index} className="p-3 bg-slate-50 rounded-lg space-y-3">
+                                  <div className="flex justify-between items-center">
+                                    <div>
+                                      <p className="font-medium">{machine?.name || 'Unknown Machine'}</p>
+                                      <p className="text-sm text-slate-600">Code: {machine?.productCode}</p>
+                                    </div>
+                                    <div className="w-24">
+                                      <Input
+                                        type="number"
+                                        min="0"
+                                        value={line.quantity}
+                                        onChange={(e) => updateLine(index, { quantity: Number(e.target.value) })}
+                                      />
+                                    </div>
+                                  </div>
+                                  <OrderLinePanels
+                                    line={line}
+                                    onChange={(changed) => updateLine(index, changed)}
+                                  />
+                                  <OrderLineFields
+                                    line={line}
+                                    onChange={(changed) => updateLine(index, changed)}
+                                    idPrefix={`order-line-${index}`}
+                                  />
+                                </div>
+                              );
+                            })}
+                            <Select value="" onValueChange={(value) => addLine(Number(value))}>
+                              <SelectTrigger>
+                                <SelectValue placeholder="Add a machine" />
+                              </SelectTrigger>
+                              <SelectContent>
+                                {machines.map((machine) => (
+                                  <SelectItem key={machine.id} value={machine.id.toString()}>
+                                    {machine.name} ({machine.productCode})
+                                  </SelectItem>
+                                ))}
+                              </SelectContent>
+                            </Select>
+                            <FormMessage />
+                          </FormItem>
+                        )}
+                      />
+                    </Form>
+                  ) : (
+                    <div className="space-y-2">
+                      {getMachinesWithQuantities().map(({ machine, line }) => (
+                        <div key={line.id} className="flex justify-between items-start p-3 bg-slate-50 rounded-lg">
+                          <div>
+                            <p className="font-medium">{machine?.name || 'Unknown Machine'}</p>
+                            <p className="text-sm text-slate-600">Code: {machine?.productCode}</p>
+                            {line.notes && <p className="text-sm text-slate-600">{line.notes}</p>}
+                            {Object.keys(line.configuration).length > 0 && (
+                              <p className="text-sm text-slate-600 whitespace-pre-line">{formatConfiguration(line.configuration)}</p>
+                            )}
+                          </div>
+                          <div className="text-right">
+                            <p className="font-medium">Qty: {line.quantity}</p>
+                            {line.unitPrice !== null && (
+                              <p className="text-sm text-slate-600">{line.unitPrice} each</p>
+                            )}
+                            <p className="text-sm text-slate-600">
+                              {activeSerials.filter(s => s.machineId === machine?.id).length} serials
+                            </p>
+                          </div>
                         </div>
-                      </div>
-                    ))}
-                  </div>
+                      ))}
+                    </div>
+                  )}
                 </div>
 
-                {getAttachedPanels().length > 0 && (
+                {pendingDecisions.length > 0 && (
+                  <SerialDecisionPanel
+                    pending={pendingDecisions}
+                    getItemName={getDecisionItemName}
+                    selectedIds={decisionSerialIds}
+                    onSelectedIdsChange={setDecisionSerialIds}
+                    action={decisionAction}
+                    onActionChange={setDecisionAction}
+                    reason={decisionReason}
+                    onReasonChange={setDecisionReason}
+                  />
+                )}
+
+                {getOrderPanels().length > 0 && (
                   <div>
-                    <h4 className="font-medium text-slate-900 mb-2">Auto-attached Panels</h4>
+                    <h4 className="font-medium text-slate-900 mb-2">Parts</h4>
                     <div className="space-y-2">
-                      {getAttachedPanels().map((panel) => (
+                      {getOrderPanels().map(({ panel, quantity, optional }) => panel && (
                         <div key={panel.id} className="flex justify-between items-center p-3 bg-blue-50 rounded-lg">
                           <div>
-                            <p className="font-medium">{panel.name}</p>
+                            <p className="font-medium">
+                              {panel.name}
+                              {optional && <Badge variant="outline" className="ml-2">Optional</Badge>}
+                            </p>
                             <p className="text-sm text-slate-600">Code: {panel.panelCode}</p>
                           </div>
                           <div className="text-right">
+                            <p className="font-medium">Qty: {quantity}</p>
                             <p className="text-sm text-slate-600">
-                              {panelSerials.filter(s => s.panelId === panel.id).length} serials
+                              {activeSerials.filter(s => s.panelId === panel.id).length} serials
                             </p>
                           </div>
                         </div>
@@ -505,51 +739,99 @@ export function OrderDetail() {
           </Card>
         </div>
 
-        {/* Serial Numbers */}
-        {serials.length > 0 && (
-          <Card className="mt-6">
-            <CardHeader>
-              <CardTitle>Generated Serial Numbers</CardTitle>
-            </CardHeader>
-            <CardContent>
-              <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
-                {machineSerials.length > 0 && (
-                  <div>
-                    <h4 className="font-medium text-slate-900 mb-3">Machine Serials</h4>
-                    <div className="space-y-2">
-                      {machineSerials.map((serial) => {
-                        const machine = machines.find(m => m.id === serial.machineId);
-                        return (
-                          <div key={serial.id} className="flex justify-between items-center p-2 bg-slate-50 rounded text-sm">
-                            <span className="font-mono font-medium">{serial.serialNumber}</span>
-                            <span className="text-slate-600">{machine?.name}</span>
-                          </div>
-                        );
-                      })}
-                    </div>
-                  </div>
-                )}
+        <Tabs defaultValue="serials" className="mt-6">
+          <TabsList>
+            <TabsTrigger value="serials">Serial Numbers</TabsTrigger>
+            <TabsTrigger value="structure">Unit Structure</TabsTrigger>
+            {can("audit.view") && <TabsTrigger value="history">History</TabsTrigger>}
+          </TabsList>
 
-                {panelSerials.length > 0 && (
-                  <div>
-                    <h4 className="font-medium text-slate-900 mb-3">Panel Serials</h4>
-                    <div className="space-y-2">
-                      {panelSerials.map((serial) => {
-                        const panel = panels.find(p => p.id === serial.panelId);
-                        return (
-                          <div key={serial.id} className="flex justify-between items-center p-2 bg-blue-50 rounded text-sm">
-                            <span className="font-mono font-medium">{serial.serialNumber}</span>
-                            <span className="text-slate-600">{panel?.name}</span>
-                          </div>
-                        );
-                      })}
-                    </div>
+          {/* Serial Numbers */}
+          <TabsContent value="serials">
+            {serials.length > 0 ? (
+              <Card>
+                <CardHeader>
+                  <CardTitle>Generated Serial Numbers</CardTitle>
+                </CardHeader>
+                <CardContent>
+                  <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+                    {machineSerials.length > 0 && (
+                      <div>
+                        <h4 className="font-medium text-slate-900 mb-3">Machine Serials</h4>
+                        <div className="space-y-2">
+                          {machineSerials.map((serial) => (
+                            <SerialStatusRow
+                              key={serial.id}
+                              serial={serial}
+                              orderSerials={serials}
+                              itemName={machines.find(m => m.id === serial.machineId)?.name}
+                              canEdit={can("serials.void")}
+                              className="bg-slate-50"
+                            />
+                          ))}
+                        </div>
+                      </div>
+                    )}
+
+                    {panelSerials.length > 0 && (
+                      <div>
+                        <h4 className="font-medium text-slate-900 mb-3">Part Serials</h4>
+                        <div className="space-y-2">
+                          {panelSerials.map((serial) => (
+                            <SerialStatusRow
+                              key={serial.id}
+                              serial={serial}
+                              orderSerials={serials}
+                              itemName={panels.find(p => p.id === serial.panelId)?.name}
+                              canEdit={can("serials.void")}
+                              className="bg-blue-50"
+                            />
+                          ))}
+                        </div>
+                      </div>
+                    )}
                   </div>
-                )}
-              </div>
-            </CardContent>
-          </Card>
-        )}
+                </CardContent>
+              </Card>
+            ) : (
+              <p className="text-sm text-slate-500">No serial numbers have been generated for this order.</p>
+            )}
+          </TabsContent>
+
+          <TabsContent value="structure">
+            {serials.length > 0 ? (
+              <Card>
+                <CardHeader>
+                  <CardTitle>Unit Structure</CardTitle>
+                </CardHeader>
+                <CardContent>
+                  <SerialTree
+                    serials={serials}
+                    getItemName={(serial) => serial.machineId
+                      ? machines.find(m => m.id === serial.machineId)?.name
+                      : panels.find(p => p.id === serial.panelId)?.name}
+                    canEdit={can("serials.void")}
+                  />
+                </CardContent>
+              </Card>
+            ) : (
+              <p className="text-sm text-slate-500">No serial numbers have been generated for this order.</p>
+            )}
+          </TabsContent>
+
+          {can("audit.view") && (
+            <TabsContent value="history">
+              <Card>
+                <CardHeader>
+                  <CardTitle>History</CardTitle>
+                </CardHeader>
+                <CardContent>
+                  <OrderHistory orderId={orderId!} />
+                </CardContent>
+              </Card>
+            </TabsContent>
+          )}
+        </Tabs>
       </div>
     </div>
   );
@@ -0,0 +1,115 @@
+import { useMutation } from "@tanstack/react-query";
+import { useLocation, useSearch } from "wouter";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { KeyRound } from "lucide-react";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { passwordSchema } from "@shared/password";
+
+const resetPasswordFormSchema = z.object({
+  password: passwordSchema,
+  confirmPassword: z.string(),
+}).refine(data => data.password === data.confirmPassword, {
+  message: "Passwords don't match",
+  path: ["confirmPassword"],
+});
+type ResetPasswordFormData = z.infer<typeof resetPasswordFormSchema>;
+
+// Landing page for the link in a password reset email.
+export function ResetPassword() {
+  const token = new URLSearchParams(useSearch()).get("token") ?? "";
+  const [, setLocation] = useLocation();
+  const { toast } = useToast();
+
+  const form = useForm<ResetPasswordFormData>({
+    resolver: zodResolver(resetPasswordFormSchema),
+    defaultValues: {
+      password: "",
+      confirmPassword: "",
+    },
+  });
+
+  const resetPasswordMutation = useMutation({
+    mutationFn: async ({ password }: ResetPasswordFormData) => {
+      await apiRequest("POST", "/api/auth/password-reset/confirm", { token, password });
+    },
+    onSuccess: () => {
+      toast({
+        title: "Password reset",
+        description: "Sign in with your new password",
+      });
+      setLocation("/");
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to reset password",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <Card className="w-full max-w-md mx-4">
+        <CardHeader className="text-center">
+          <div className="w-16 h-16 bg-primary rounded-xl flex items-center justify-center mx-auto mb-4">
+            <KeyRound className="text-white text-2xl" size={32} />
+          </div>
+          <CardTitle className="text-2xl">Reset Password</CardTitle>
+          <CardDescription>
+            {token ? "Choose a new password for your account" : "This reset link is incomplete"}
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {token && (
+            <Form {...form}>
+              <form onSubmit={form.handleSubmit((data) => resetPasswordMutation.mutate(data))} className="space-y-4">
+                <FormField
+                  control={form.control}
+                  name="password"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>New Password</FormLabel>
+                      <FormControl>
+                        <Input type="password" autoComplete="new-password" {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                <FormField
+                  control={form.control}
+                  name="confirmPassword"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Confirm New Password</FormLabel>
+                      <FormControl>
+                        <Input type="password" autoComplete="new-password" {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                <Button type="submit" className="w-full" disabled={resetPasswordMutation.isPending}>
+                  {resetPasswordMutation.isPending ? "Saving..." : "Reset Password"}
+                </Button>
+              </form>
+            </Form>
+          )}
+          <Button variant="ghost" className="w-full" onClick={() => setLocation("/")}>
+            Back to sign in
+          </Button>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,24 @@
+import { Navbar } from "@/components/layout/Navbar";
+import { UsersTable } from "@/components/tables/UsersTable";
+import { RolesTable } from "@/components/tables/RolesTable";
+import { useAuth } from "@/components/auth/AuthProvider";
+
+export function Users() {
+  const { can } = useAuth();
+
+  return (
+    <div className="min-h-screen bg-slate-50">
+      <Navbar />
+      <main className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-4 md:py-8">
+        <div className="mb-6 md:mb-8">
+          <h1 className="text-2xl md:text-3xl font-bold text-slate-900">Users</h1>
+          <p className="mt-1 md:mt-2 text-sm md:text-base text-slate-600">Invite users, change their roles and decide what each role may do</p>
+        </div>
+        <div className="space-y-6 md:space-y-8">
+          <UsersTable />
+          {can("users.manage") && <RolesTable />}
+        </div>
+      </main>
+    </div>
+  );
+}
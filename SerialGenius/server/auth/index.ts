@@ -0,0 +1,79 @@
+import type { NextFunction, Request, Response } from "express";
+import type { Permission } from "@shared/schema";
+import { createLocalAuthProvider } from "./local";
+import { createSupabaseAuthProvider } from "./supabase";
+import { authenticateAccessToken } from "./sessions";
+import { authProviderName, type AuthProvider, type AuthUser } from "./provider";
+
+export { AuthRegistrationError, toCurrentUser, toPublicUser, type AuthProvider, type AuthUser } from "./provider";
+export { ensureDefaultRoles } from "./permissions";
+export { changePassword, requestPasswordReset, resetPassword } from "./passwords";
+export { claimLoginChallengeAttempt, endSession, refreshSession, signLoginChallenge, startSession, verifyLoginChallenge } from "./sessions";
+export {
+  beginTwoFactorSetup,
+  disableTwoFactor,
+  enableTwoFactor,
+  regenerateRecoveryCodes,
+  TwoFactorStateError,
+  verifySecondFactor,
+} from "./twofactor";
+
+// Extend Request type to include user
+declare global {
+  namespace Express {
+    interface Request {
+      user?: AuthUser;
+    }
+  }
+}
+
+function selectAuthProvider(): AuthProvider {
+  switch (authProviderName) {
+    case "local": return createLocalAuthProvider();
+    case "supabase": return createSupabaseAuthProvider();
+    default: throw new Error(`Unknown AUTH_PROVIDER "${authProviderName}"; expected "local" or "supabase".`);
+  }
+}
+
+export const authProvider = selectAuthProvider();
+
+// All a user who must change their password or set up two-factor
+// authentication is allowed to do first.
+const SETUP_PATHS = ["/api/auth/me", "/api/auth/password", "/api/auth/2fa/setup", "/api/auth/2fa/enable"];
+
+// Middleware for authentication
+export const authenticateToken = async (req: Request, res: Response, next: NextFunction) => {
+  const authHeader = req.headers["authorization"];
+  const token = authHeader && authHeader.split(" ")[1];
+
+  if (!token) {
+    return res.status(401).json({ message: "Access token required" });
+  }
+
+  try {
+    const user = await authenticateAccessToken(token);
+    if (!user) {
+      return res.status(401).json({ message: "Invalid token" });
+    }
+
+    if (user.mustChangePassword && !SETUP_PATHS.includes(req.path)) {
+      return res.status(403).json({ message: "You must change your password first", code: "PASSWORD_CHANGE_REQUIRED" });
+    }
+    if (user.twoFactorSetupRequired && !SETUP_PATHS.includes(req.path)) {
+      return res.status(403).json({ message: "You must set up two-factor authentication first", code: "TWO_FACTOR_SETUP_REQUIRED" });
+    }
+
+    req.user = user;
+    next();
+  } catch (error) {
+    res.status(500).json({ message: "Server error" });
+  }
+};
+
+// Middleware for routes that need any one of the given permissions
+export const requirePermission = (...permissions: Permission[]) => (req: Request, res: Response, next: NextFunction) => {
+  if (!permissions.some(permission => req.user?.permissions.includes(permission))) {
+    return res.status(403).json({ message: "You don't have permission to do this" });
+  }
+  next();
+};
@@ -0,0 +1,22 @@
+import bcrypt from "bcrypt";
+import { storage } from "../storage";
+import type { AuthProvider } from "./provider";
+
+// Users and bcrypt hashes from our own users table.
+export function createLocalAuthProvider(): AuthProvider {
+  return {
+    name: "local",
+
+    async login({ username, password }) {
+      const user = await storage.getUserByUsername(username);
+      if (!user?.isActive || !(await bcrypt.compare(password, user.password))) {
+        return undefined;
+      }
+      return user;
+    },
+
+    async register(user, actorId) {
+      return await storage.createUser(user, actorId);
+    },
+  };
+}
@@ -0,0 +1,76 @@
+import { createHash, randomBytes } from "crypto";
+import bcrypt from "bcrypt";
+import { storage } from "../storage";
+import { mailTransport } from "../mail";
+
+const RESET_TOKEN_LIFETIME_MS = 60 * 60 * 1000;
+
+function hashResetToken(token: string): string {
+  return createHash("sha256").update(token).digest("hex");
+}
+
+// Where reset links point. Configured rather than taken from the request, so a
+// forged Host header can't have a token mailed out with a link to elsewhere.
+function appUrl(): string {
+  const url = process.env.APP_URL;
+  if (!url) {
+    throw new Error("APP_URL must be set to send password reset links.");
+  }
+  return url.replace(/\/+$/, "");
+}
+
+// Mails a one-time reset link to the account matching the username or email.
+// Says nothing about whether one matched, so the form can't be used to find
+// out who has an account.
+export async function requestPasswordReset(login: string): Promise<void> {
+  const linkBase = appUrl();
+  const user = login.includes("@")
+    ? await storage.getUserByEmail(login)
+    : await storage.getUserByUsername(login);
+  if (!user?.isActive) return;
+
+  const token = randomBytes(32).toString("base64url");
+  await storage.createPasswordResetToken(user.id, hashResetToken(token), new Date(Date.now() + RESET_TOKEN_LIFETIME_MS));
+  await mailTransport.send({
+    to: user.email,
+    subject: "Reset your Serial Number Generator password",
+    text: [
+      `Hello ${user.username},`,
+      "",
+      "Someone asked to reset the password for your account. To choose a new one, open:",
+      `${linkBase}/reset-password?token=${token}`,
+      "",
+      "The link works once and expires in an hour. If you didn't ask for this, you can ignore this email.",
+    ].join("\n"),
+  });
+}
+
+// False when the token is unknown, used or expired. Validate the password
+// against the policy first: the token is spent either way. Every session of
+// the user is signed out, since whoever held the old password may have one.
+export async function resetPassword(token: string, password: string): Promise<boolean> {
+  const userId = await storage.consumePasswordResetToken(hashResetToken(token));
+  if (userId === undefined) return false;
+  const user = await storage.getUser(userId);
+  if (!user?.isActive) return false;
+  await storage.setUserPassword(userId, password, userId);
+  await storage.revokeUserSessions(userId);
+  return true;
+}
+
+// False when the current password is wrong. Signs out the user's other
+// sessions but keeps the one making the change.
+export async function changePassword(
+  userId: number,
+  sessionId: number,
+  currentPassword: string,
+  newPassword: string,
+): Promise<boolean> {
+  const user = await storage.getUser(userId);
+  if (!user || !(await bcrypt.compare(currentPassword, user.password))) {
+    return false;
+  }
+  await storage.setUserPassword(userId, newPassword, userId);
+  await storage.revokeUserSessions(userId, sessionId);
+  return true;
+}
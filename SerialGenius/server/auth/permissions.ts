@@ -0,0 +1,31 @@
+import { ADMIN_ROLE, PERMISSIONS, type InsertRole, type Permission } from "@shared/schema";
+import { storage } from "../storage";
+
+// Roles every installation starts with. Admins can change them, except for
+// Admin's permissions, and add their own.
+const DEFAULT_ROLES: InsertRole[] = [
+  { name: ADMIN_ROLE, description: "Full access, including managing users and roles", permissions: [...PERMISSIONS], requireTwoFactor: false },
+  { name: "Tech", description: "Read-only access to the catalog, orders and serials", permissions: [], requireTwoFactor: false },
+  { name: "Sales", description: "Creates and edits orders", permissions: ["orders.create", "orders.edit", "serials.reserve"], requireTwoFactor: false },
+  { name: "Production", description: "Builds orders and retires faulty serials", permissions: ["serials.reserve", "serials.void"], requireTwoFactor: false },
+  { name: "Finance", description: "Records payments against orders", permissions: ["orders.edit_payment"], requireTwoFactor: false },
+  { name: "Field Service", description: "Replaces serials on installed machines", permissions: ["serials.void"], requireTwoFactor: false },
+];
+
+export async function ensureDefaultRoles(): Promise<void> {
+  await storage.createMissingRoles(DEFAULT_ROLES);
+}
+
+export interface RoleAccess {
+  permissions: Permission[];
+  requireTwoFactor: boolean;
+}
+
+// A role that no longer exists grants nothing.
+export async function accessFor(roleName: string): Promise<RoleAccess> {
+  const role = await storage.getRole(roleName);
+  return {
+    permissions: roleName === ADMIN_ROLE ? [...PERMISSIONS] : role?.permissions ?? [],
+    requireTwoFactor: role?.requireTwoFactor ?? false,
+  };
+}
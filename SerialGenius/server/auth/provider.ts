@@ -0,0 +1,72 @@
+import type { CurrentUser, InsertUser, LoginCredentials, Permission, PublicUser, User } from "@shared/schema";
+import { accessFor } from "./permissions";
+
+// What an authenticated request resolves to. The id is always a row of our
+// users table, so it can be stored as addedBy and the like.
+export interface AuthUser {
+  id: number;
+  sessionId: number;
+  username: string;
+  role: User["role"];
+  permissions: Permission[];
+  mustChangePassword: boolean;
+  twoFactorSetupRequired: boolean;
+}
+
+// A provider refused to create an account, e.g. because its password rules
+// weren't met.
+export class AuthRegistrationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "AuthRegistrationError";
+  }
+}
+
+// Providers only check credentials and create accounts. Whoever signs in, the
+// session and its tokens are ours (see sessions.ts), so they can be revoked the
+// same way for every provider.
+export interface AuthProvider {
+  name: string;
+  // Undefined when the credentials are wrong or the user is deactivated;
+  // callers shouldn't say which.
+  login(credentials: LoginCredentials): Promise<User | undefined>;
+  register(user: InsertUser, actorId: number): Promise<User>;
+}
+
+// AUTH_PROVIDER picks where users sign in: "local" (the default) for our own
+// users table, or "supabase".
+export const authProviderName = process.env.AUTH_PROVIDER ?? "local";
+
+// Only local accounts have a password here to change; other providers keep
+// their own, so a forced change is skipped rather than left unanswerable.
+function mustChangePassword(user: User): boolean {
+  return user.mustChangePassword && authProviderName === "local";
+}
+
+export async function toAuthUser(user: User, sessionId: number): Promise<AuthUser> {
+  const access = await accessFor(user.role);
+  return {
+    id: user.id,
+    sessionId,
+    username: user.username,
+    role: user.role,
+    permissions: access.permissions,
+    mustChangePassword: mustChangePassword(user),
+    twoFactorSetupRequired: access.requireTwoFactor && !user.totpEnabledAt,
+  };
+}
+
+export function toPublicUser(user: User): PublicUser {
+  const { password, totpSecret, totpLastStep, ...publicUser } = user;
+  return publicUser;
+}
+
+export async function toCurrentUser(user: User): Promise<CurrentUser> {
+  const access = await accessFor(user.role);
+  return {
+    ...toPublicUser(user),
+    mustChangePassword: mustChangePassword(user),
+    permissions: access.permissions,
+    twoFactorSetupRequired: access.requireTwoFactor && !user.totpEnabledAt,
+  };
+}
@@ -0,0 +1,144 @@
+import { createHash, randomBytes } from "crypto";
+import jwt from "jsonwebtoken";
+import type { User } from "@shared/schema";
+import { storage, type LoginAttemptResult } from "../storage";
+import { toAuthUser, type AuthUser } from "./provider";
+
+// Access tokens are short-lived so a revoked session or a role change takes
+// effect quickly even for requests that never touch the database. Refresh
+// tokens last as long as the session stays in use.
+const ACCESS_TOKEN_LIFETIME = "15m";
+const REFRESH_TOKEN_LIFETIME_MS = 30 * 24 * 60 * 60 * 1000;
+// How long a user has to enter their two-factor code after their password.
+const LOGIN_CHALLENGE_LIFETIME_MS = 5 * 60 * 1000;
+// Wrong codes allowed before the password has to be entered again, and
+// across all of a user's challenges within the window before they have to wait.
+const LOGIN_CHALLENGE_MAX_ATTEMPTS = 5;
+const LOGIN_USER_MAX_ATTEMPTS = 10;
+const LOGIN_ATTEMPT_WINDOW_MS = 15 * 60 * 1000;
+
+interface AccessTokenPayload {
+  sub: string;
+  sid: number;
+}
+
+interface LoginChallengePayload {
+  sub: string;
+  cid: number;
+  purpose: "two-factor";
+}
+
+export interface LoginChallenge {
+  userId: number;
+  challengeId: number;
+}
+
+export interface SessionTokens {
+  accessToken: string;
+  refreshToken: string;
+}
+
+export interface SessionClient {
+  userAgent?: string;
+  ipAddress?: string;
+}
+
+const secret = process.env.JWT_SECRET;
+if (!secret) {
+  throw new Error("JWT_SECRET must be set to sign access tokens.");
+}
+
+function hashRefreshToken(token: string): string {
+  return createHash("sha256").update(token).digest("hex");
+}
+
+function newRefreshToken(): { token: string; hash: string; expiresAt: Date } {
+  const token = randomBytes(32).toString("base64url");
+  return { token, hash: hashRefreshToken(token), expiresAt: new Date(Date.now() + REFRESH_TOKEN_LIFETIME_MS) };
+}
+
+function signAccessToken(userId: number, sessionId: number): string {
+  return jwt.sign({ sub: userId.toString(), sid: sessionId } satisfies AccessTokenPayload, secret!, { expiresIn: ACCESS_TOKEN_LIFETIME });
+}
+
+export async function startSession(user: User, client: SessionClient): Promise<SessionTokens> {
+  const refresh = newRefreshToken();
+  const session = await storage.createSession({
+    userId: user.id,
+    refreshTokenHash: refresh.hash,
+    expiresAt: refresh.expiresAt,
+    userAgent: client.userAgent,
+    ipAddress: client.ipAddress,
+  });
+  return { accessToken: signAccessToken(user.id, session.id), refreshToken: refresh.token };
+}
+
+// Trades a refresh token for a new pair. Undefined when the token is unknown,
+// spent, expired or revoked, or its user has been deactivated.
+export async function refreshSession(refreshToken: string): Promise<SessionTokens | undefined> {
+  const refresh = newRefreshToken();
+  const session = await storage.rotateSessionToken(hashRefreshToken(refreshToken), refresh.hash, refresh.expiresAt);
+  if (!session) return undefined;
+
+  const user = await storage.getUser(session.userId);
+  if (!user?.isActive) {
+    await storage.revokeUserSessions(session.userId);
+    return undefined;
+  }
+  return { accessToken: signAccessToken(user.id, session.id), refreshToken: refresh.token };
+}
+
+export async function endSession(refreshToken: string): Promise<void> {
+  await storage.revokeSessionByRefreshToken(hashRefreshToken(refreshToken));
+}
+
+// Proof that the password was right, exchanged for a session once the
+// two-factor code is too.
+export async function signLoginChallenge(user: User): Promise<string> {
+  const expiresAt = new Date(Date.now() + LOGIN_CHALLENGE_LIFETIME_MS);
+  const challengeId = await storage.createLoginChallenge(user.id, expiresAt);
+  return jwt.sign({ sub: user.id.toString(), cid: challengeId, purpose: "two-factor" } satisfies LoginChallengePayload, secret!, {
+    expiresIn: LOGIN_CHALLENGE_LIFETIME_MS / 1000,
+  });
+}
+
+// The challenge the token stands for, or undefined when the token isn't valid.
+export function verifyLoginChallenge(token: string): LoginChallenge | undefined {
+  try {
+    const payload = jwt.verify(token, secret!) as Partial<LoginChallengePayload>;
+    if (payload.purpose !== "two-factor" || typeof payload.cid !== "number") return undefined;
+    return { userId: Number(payload.sub), challengeId: payload.cid };
+  } catch (error) {
+    return undefined;
+  }
+}
+
+// Counts a code about to be checked against the challenge. Once the challenge
+// has had too many, it stops working; once the user has, they have to wait.
+export async function claimLoginChallengeAttempt(challenge: LoginChallenge): Promise<LoginAttemptResult> {
+  return await storage.claimLoginChallengeAttempt(challenge.challengeId, challenge.userId, {
+    perChallenge: LOGIN_CHALLENGE_MAX_ATTEMPTS,
+    perUser: LOGIN_USER_MAX_ATTEMPTS,
+    since: new Date(Date.now() - LOGIN_ATTEMPT_WINDOW_MS),
+  });
+}
+
+// Resolves an access token to its user, or undefined when the token isn't
+// valid or its session has been revoked.
+export async function authenticateAccessToken(token: string): Promise<AuthUser | undefined> {
+  let payload: AccessTokenPayload;
+  try {
+    payload = jwt.verify(token, secret!) as AccessTokenPayload;
+  } catch (error) {
+    return undefined;
+  }
+  // Login challenges are signed with the same secret but aren't access tokens.
+  if (typeof payload.sid !== "number") return undefined;
+
+  const session = await storage.getSession(payload.sid);
+  if (!session || session.revokedAt || session.userId !== Number(payload.sub)) {
+    return undefined;
+  }
+  const user = await storage.getUser(session.userId);
+  return user?.isActive ? await toAuthUser(user, session.id) : undefined;
+}
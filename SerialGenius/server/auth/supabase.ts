@@ -0,0 +1,79 @@
+import { randomBytes } from "crypto";
+import { storage } from "../storage";
+import { AuthRegistrationError, type AuthProvider } from "./provider";
+
+interface SupabaseUser {
+  id: string;
+  email: string;
+}
+
+// Supabase Auth over its REST API, used to check passwords. Supabase users are
+// matched to our users table by email, and only users a user manager
+// registered here have a row there; anyone else who signs up with Supabase
+// directly can't sign in. Roles live only on our row, never in Supabase's
+// user_metadata, which users can edit themselves. Supabase's own session is
+// discarded in favour of ours.
+export function createSupabaseAuthProvider(): AuthProvider {
+  const url = process.env.SUPABASE_URL;
+  const anonKey = process.env.SUPABASE_ANON_KEY;
+  if (!url || !anonKey) {
+    throw new Error("SUPABASE_URL and SUPABASE_ANON_KEY must be set to use Supabase authentication.");
+  }
+
+  const request = async (path: string, init: { method?: string; body?: unknown } = {}) => {
+    return await fetch(`${url}/auth/v1${path}`, {
+      method: init.method ?? "GET",
+      headers: {
+        apikey: anonKey,
+        Authorization: `Bearer ${anonKey}`,
+        "Content-Type": "application/json",
+      },
+      body: init.body === undefined ? undefined : JSON.stringify(init.body),
+    });
+  };
+
+  return {
+    name: "supabase",
+
+    // Supabase signs in by email; a username is looked up in our table first.
+    async login({ username, password }) {
+      const email = username.includes("@") ? username : (await storage.getUserByUsername(username))?.email;
+      if (!email) return undefined;
+
+      const response = await request("/token?grant_type=password", {
+        method: "POST",
+        body: { email, password },
+      });
+      if (!response.ok) return undefined;
+
+      const session: { user: SupabaseUser } = await response.json();
+      const user = await storage.getUserByEmail(session.user.email);
+      // Deactivating a user here locks them out even though Supabase still
+      // knows their password.
+      return user?.isActive ? user : undefined;
+    },
+
+    async register(user, actorId) {
+      const response = await request("/signup", {
+        method: "POST",
+        body: {
+          email: user.email,
+          password: user.password,
+          data: { username: user.username },
+        },
+      });
+      if (!response.ok) {
+        const error = await response.json().catch(() => ({}));
+        throw new AuthRegistrationError(error.msg || error.message || "Supabase sign-up failed");
+      }
+      const supabaseUser: SupabaseUser = await response.json().then((body) => body.user ?? body);
+      return await storage.createUser({
+        username: user.username,
+        email: supabaseUser.email,
+        // Never used to sign in; passwords stay with Supabase.
+        password: randomBytes(32).toString("hex"),
+        role: user.role,
+      }, actorId);
+    },
+  };
+}
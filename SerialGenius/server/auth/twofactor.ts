@@ -0,0 +1,83 @@
+import { createHash, randomBytes } from "crypto";
+import QRCode from "qrcode";
+import type { TwoFactorSetup, User } from "@shared/schema";
+import { storage } from "../storage";
+import { generateTotpSecret, matchTotpStep, totpUri } from "./totp";
+
+const ISSUER = "Serial Number Generator";
+const RECOVERY_CODE_COUNT = 10;
+const RECOVERY_CODE_ALPHABET = "abcdefghjkmnpqrstuvwxyz23456789";
+
+// A two-factor operation that doesn't fit the user's current state, e.g.
+// enabling it twice.
+export class TwoFactorStateError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "TwoFactorStateError";
+  }
+}
+
+// Recovery codes are compared without their dash or case, so they survive
+// being retyped from paper.
+function hashRecoveryCode(code: string): string {
+  return createHash("sha256").update(code.replace(/[\s-]/g, "").toLowerCase()).digest("hex");
+}
+
+function generateRecoveryCodes(): string[] {
+  return Array.from({ length: RECOVERY_CODE_COUNT }, () => {
+    const chars = Array.from(randomBytes(10), byte => RECOVERY_CODE_ALPHABET[byte % RECOVERY_CODE_ALPHABET.length]);
+    return `${chars.slice(0, 5).join("")}-${chars.slice(5).join("")}`;
+  });
+}
+
+// Starts enrolment with a fresh secret. Two-factor stays off until the user
+// confirms a code from their app with enableTwoFactor.
+export async function beginTwoFactorSetup(user: User): Promise<TwoFactorSetup> {
+  if (user.totpEnabledAt) {
+    throw new TwoFactorStateError("Two-factor authentication is already on");
+  }
+  const secret = generateTotpSecret();
+  await storage.setPendingTotpSecret(user.id, secret);
+  const otpauthUrl = totpUri(secret, user.username, ISSUER);
+  return { secret, otpauthUrl, qrCode: await QRCode.toDataURL(otpauthUrl) };
+}
+
+// Returns the new recovery codes, or undefined when the code is wrong.
+export async function enableTwoFactor(user: User, code: string): Promise<string[] | undefined> {
+  if (user.totpEnabledAt || !user.totpSecret) {
+    throw new TwoFactorStateError(user.totpEnabledAt
+      ? "Two-factor authentication is already on"
+      : "Start two-factor setup first");
+  }
+  const step = matchTotpStep(user.totpSecret, code);
+  if (step === undefined) return undefined;
+
+  const codes = generateRecoveryCodes();
+  await storage.enableTotp(user.id, step, codes.map(hashRecoveryCode));
+  return codes;
+}
+
+// Accepts a code from the authenticator app or an unused recovery code.
+export async function verifySecondFactor(user: User, code: string): Promise<boolean> {
+  if (!user.totpEnabledAt || !user.totpSecret) return false;
+
+  const step = matchTotpStep(user.totpSecret, code);
+  if (step !== undefined) {
+    return await storage.recordTotpStep(user.id, step);
+  }
+  return await storage.consumeRecoveryCode(user.id, hashRecoveryCode(code));
+}
+
+// Replaces all of the user's recovery codes, used or not.
+export async function regenerateRecoveryCodes(user: User): Promise<string[]> {
+  if (!user.totpEnabledAt) {
+    throw new TwoFactorStateError("Two-factor authentication is off");
+  }
+  const codes = generateRecoveryCodes();
+  await storage.replaceRecoveryCodes(user.id, codes.map(hashRecoveryCode));
+  return codes;
+}
+
+export async function disableTwoFactor(userId: number, actorId: number): Promise<void> {
+  await storage.disableTotp(userId, actorId);
+}
@@ -0,0 +1,51 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { randomUUID } from "crypto";
+
+// Runs against the database in DATABASE_URL; every test works inside a
+// transaction that is rolled back, so it leaves nothing behind.
+const skip = process.env.DATABASE_URL ? false : "DATABASE_URL is not set";
+
+async function rolledBack(fn: (tx: import("./db").DbTransaction) => Promise<void>) {
+  const { db } = await import("./db");
+  const { TransactionRollbackError } = await import("drizzle-orm");
+  try {
+    await db.transaction(async (tx) => {
+      await fn(tx);
+      tx.rollback();
+    });
+  } catch (error) {
+    if (!(error instanceof TransactionRollbackError)) throw error;
+  }
+}
+
+const uniqueCode = () => `T${randomUUID().slice(0, 8).toUpperCase()}`;
+
+test("refuses to delete a part an order line picked as an option", { skip }, async () => {
+  const { CatalogItemInUseError, storage } = await import("./storage");
+  const { countries, machines, orderLines, orders, panels, users } = await import("@shared/schema");
+  await rolledBack(async (tx) => {
+    const code = uniqueCode();
+    const [user] = await tx.insert(users).values({
+      username: code, email: `${code}@example.com`, password: "x", role: "Admin",
+    }).returning();
+    const [country] = await tx.insert(countries).values({ name: code, code }).returning();
+    const [machine] = await tx.insert(machines).values({ name: code, productCode: code, addedBy: user.id }).returning();
+    const [picked, unused] = await tx.insert(panels).values([
+      { name: code, panelCode: `${code}P`, addedBy: user.id },
+      { name: code, panelCode: `${code}U`, addedBy: user.id },
+    ]).returning();
+    const [order] = await tx.insert(orders).values({
+      customerName: code, city: "", state: "", countryId: country.id, quoteNumber: code,
+      invoiceNumber: "", dueDate: new Date(), progressStatus: "Quote", paymentStatus: "Pending",
+      addedBy: user.id,
+    }).returning();
+    await tx.insert(orderLines).values({
+      orderId: order.id, machineId: machine.id, quantity: 1, optionalPanelIds: [picked.id],
+    });
+
+    await assert.rejects(storage.deletePanel(picked.id, user.id, tx), CatalogItemInUseError);
+    await storage.deletePanel(unused.id, user.id, tx);
+    assert.equal(await storage.getPanel(unused.id, tx), undefined);
+  });
+});
@@ -1,5 +1,8 @@
 import express, { type Request, Response, NextFunction } from "express";
 import { registerRoutes } from "./routes";
+import { ensureDefaultRoles } from "./auth";
+import { migrateLegacyOrders } from "./orders";
+import { storage } from "./storage";
 import { setupVite, serveStatic, log } from "./vite";
 
 const app = express();
@@ -37,6 +40,9 @@ app.use((req, res, next) => {
 });
 
 (async () => {
+  await ensureDefaultRoles();
+  await storage.moveLegacyPanelParents();
+  await migrateLegacyOrders();
   const server = await registerRoutes(app);
 
   app.use((err: any, _req: Request, res: Response, _next: NextFunction) => {
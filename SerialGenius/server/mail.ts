@@ -0,0 +1,59 @@
+import { appendFile } from "fs/promises";
+import { log } from "./vite";
+
+export interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;
+}
+
+export interface MailTransport {
+  name: string;
+  send(message: MailMessage): Promise<void>;
+}
+
+function formatMessage(message: MailMessage): string {
+  return [
+    `Date: ${new Date().toISOString()}`,
+    `To: ${message.to}`,
+    `Subject: ${message.subject}`,
+    "",
+    message.text,
+    "",
+  ].join("\n");
+}
+
+// Prints mail to the server log; for local development.
+export function createConsoleTransport(): MailTransport {
+  return {
+    name: "console",
+    async send(message) {
+      log(`\n${formatMessage(message)}`, "mail");
+    },
+  };
+}
+
+// Appends mail to MAIL_FILE (mail.log by default), one message after another.
+export function createFileTransport(): MailTransport {
+  const path = process.env.MAIL_FILE ?? "mail.log";
+  return {
+    name: "file",
+    async send(message) {
+      await appendFile(path, `${formatMessage(message)}\n`);
+    },
+  };
+}
+
+// MAIL_TRANSPORT picks how outgoing mail is delivered: "console" (the
+// default) or "file". A real transport implements MailTransport and is added
+// here.
+function selectMailTransport(): MailTransport {
+  const name = process.env.MAIL_TRANSPORT ?? "console";
+  switch (name) {
+    case "console": return createConsoleTransport();
+    case "file": return createFileTransport();
+    default: throw new Error(`Unknown MAIL_TRANSPORT "${name}"; expected "console" or "file".`);
+  }
+}
+
+export const mailTransport = selectMailTransport();
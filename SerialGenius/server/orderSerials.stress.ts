@@ -0,0 +1,67 @@
+import { test, after } from "node:test";
+import assert from "node:assert/strict";
+import { randomUUID } from "crypto";
+
+// Creates orders in parallel against the database in DATABASE_URL and checks
+// that no two of them were issued the same serial. The orders are committed,
+// so point it at a scratch database: `npm run test:stress`.
+const skip = process.env.DATABASE_URL ? false : "DATABASE_URL is not set";
+
+const ORDERS = Number(process.env.STRESS_ORDERS ?? 40);
+const UNITS_PER_LINE = 3;
+
+test("concurrent order creation never issues a serial twice", { skip }, async () => {
+  const { db, pool } = await import("./db");
+  after(() => pool.end());
+  const { storage } = await import("./storage");
+  const { createOrderWithSerials } = await import("./serials");
+  const { countries, insertOrderSchema } = await import("@shared/schema");
+
+  const run = randomUUID().slice(0, 6).toUpperCase();
+  const user = await storage.createUser({
+    username: `stress-${run}`,
+    email: `stress-${run}@example.com`,
+    password: randomUUID(),
+    role: "Admin",
+  }, null);
+  const [country] = await db.insert(countries).values({ name: `Stress ${run}`, code: `S${run}` }).returning();
+  // Two machines sharing a panel, so orders contend on the machine counters
+  // and on the shared panel counter.
+  const panel = await storage.createPanel({ name: "Stress panel", panelCode: `SP${run}`, addedBy: user.id });
+  const machines = await Promise.all(["A", "B"].map((suffix) => storage.createMachine({
+    name: `Stress machine ${suffix}`,
+    productCode: `SM${suffix}${run}`,
+    serialFormat: "{code}-{seq:2}",
+    addedBy: user.id,
+  })));
+  for (const machine of machines) {
+    await storage.setMachinePanels(machine.id, [{ panelId: panel.id, quantity: 2, optional: false }], user.id);
+  }
+
+  const results = await Promise.allSettled(Array.from({ length: ORDERS }, (_, n) =>
+    createOrderWithSerials(insertOrderSchema.parse({
+      customerName: `Stress ${run} #${n}`,
+      city: "",
+      state: "",
+      countryId: country.id,
+      quoteNumber: `Q-${run}-${n}`,
+      dueDate: new Date(),
+      paymentStatus: "Pending",
+      lines: machines.map((machine) => ({ machineId: machine.id, quantity: UNITS_PER_LINE })),
+      addedBy: user.id,
+    }))));
+
+  const failures = results.flatMap((r) => r.status === "rejected" ? [r.reason] : []);
+  assert.deepEqual(failures, []);
+
+  const numbers = results.flatMap((r) => r.status === "fulfilled" ? r.value.serials.map((s) => s.serialNumber) : []);
+  const perOrder = machines.length * UNITS_PER_LINE * 3;
+  assert.equal(numbers.length, ORDERS * perOrder);
+  assert.equal(new Set(numbers).size, numbers.length, "a serial number was issued twice");
+
+  // Sequences run on without gaps, past the two-digit padding.
+  for (const machine of machines) {
+    const issued = numbers.filter((n) => n.startsWith(`${machine.productCode}-`)).map((n) => Number(n.split("-").pop()));
+    assert.deepEqual(issued.sort((a, b) => a - b), Array.from({ length: ORDERS * UNITS_PER_LINE }, (_, i) => i + 1));
+  }
+});
@@ -0,0 +1,69 @@
+import type { Order, OrderTransition } from "@shared/schema";
+import { nextOrderStatuses, orderStatusProblems, type OrderStatus } from "@shared/orderLifecycle";
+import { db } from "./db";
+import { storage } from "./storage";
+
+export class OrderTransitionError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "OrderTransitionError";
+  }
+}
+
+// An edit the order's status doesn't allow, such as clearing a field the
+// status required or changing the lines of a closed order.
+export class OrderEditError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "OrderEditError";
+  }
+}
+
+// Statuses from before the lifecycle was declared, and where those orders
+// now stand.
+const LEGACY_ORDER_STATUSES: Record<string, OrderStatus> = {
+  "Pending": "Confirmed",
+  "In Progress": "In Production",
+  "Completed": "Closed",
+};
+
+// Run at startup to bring orders saved by earlier versions up to date:
+// lifecycle statuses, and lines out of the old orders.machines jsonb. Does
+// nothing once every order has been brought over.
+export async function migrateLegacyOrders(): Promise<void> {
+  await storage.renameOrderStatuses(LEGACY_ORDER_STATUSES);
+  await storage.moveLegacyOrderLines();
+}
+
+// Moves an order to `status` if the lifecycle allows it from where the order
+// is now, filling in the fields that status requires. Putting an order on
+// hold remembers where it was so resuming can only go back there.
+export async function transitionOrder(
+  id: number,
+  transition: OrderTransition,
+  userId: number,
+): Promise<Order | undefined> {
+  const { status, confirmationDate, invoiceNumber } = transition;
+
+  return await db.transaction(async (tx) => {
+    const order = await storage.getOrderForUpdate(id, tx);
+    if (!order) return undefined;
+
+    if (!nextOrderStatuses(order).includes(status)) {
+      throw new OrderTransitionError(`An order can't move from ${order.progressStatus} to ${status}`);
+    }
+
+    const changes = {
+      progressStatus: status,
+      heldFromStatus: status === "On Hold" ? order.progressStatus : null,
+      ...(confirmationDate !== undefined && { confirmationDate }),
+      ...(invoiceNumber !== undefined && { invoiceNumber }),
+    };
+    const problems = orderStatusProblems(status, { ...order, ...changes });
+    if (problems.length > 0) {
+      throw new OrderTransitionError(problems.join("; "));
+    }
+
+    return await storage.updateOrder(id, changes, userId, tx);
+  });
+}
@@ -0,0 +1,74 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { randomUUID } from "crypto";
+
+// Runs against the database in DATABASE_URL; every test works inside a
+// transaction that is rolled back, so it leaves nothing behind.
+const skip = process.env.DATABASE_URL ? false : "DATABASE_URL is not set";
+
+async function rolledBack(fn: (tx: import("./db").DbTransaction) => Promise<void>) {
+  const { db } = await import("./db");
+  const { TransactionRollbackError } = await import("drizzle-orm");
+  try {
+    await db.transaction(async (tx) => {
+      await fn(tx);
+      tx.rollback();
+    });
+  } catch (error) {
+    if (!(error instanceof TransactionRollbackError)) throw error;
+  }
+}
+
+const uniqueCode = () => `T${randomUUID().slice(0, 8).toUpperCase()}`;
+
+test("allocates sequences past 10^width", { skip }, async () => {
+  const { storage } = await import("./storage");
+  await rolledBack(async (tx) => {
+    const prefix = uniqueCode();
+    assert.equal(await storage.allocateSerialSequence(prefix, "", 999, tx), 1);
+    assert.equal(await storage.allocateSerialSequence(prefix, "", 2, tx), 1000);
+    assert.equal(await storage.allocateSerialSequence(prefix, "", 1, tx), 1002);
+  });
+});
+
+test("seeds a new counter from serials numbered past the padding width", { skip }, async () => {
+  const { storage } = await import("./storage");
+  const { countries, orders, serials, users } = await import("@shared/schema");
+  await rolledBack(async (tx) => {
+    const code = uniqueCode();
+    const [user] = await tx.insert(users).values({
+      username: code, email: `${code}@example.com`, password: "x", role: "Admin",
+    }).returning();
+    const [country] = await tx.insert(countries).values({ name: code, code }).returning();
+    const [order] = await tx.insert(orders).values({
+      customerName: code, city: "", state: "", countryId: country.id, quoteNumber: code,
+      invoiceNumber: "", dueDate: new Date(), progressStatus: "Quote", paymentStatus: "Pending",
+      addedBy: user.id,
+    }).returning();
+    await tx.insert(serials).values(["998", "999", "1000"].map((n) => ({
+      orderId: order.id, serialNumber: `${code}${n}`, addedBy: user.id,
+    })));
+
+    assert.equal(await storage.getNextSerialSequence(code, tx), 1001);
+    assert.equal(await storage.allocateSerialSequence(code, "", 1, tx), 1001);
+
+    // Once the counter exists it is the only source of the next number.
+    await tx.insert(serials).values({ orderId: order.id, serialNumber: `${code}5000`, addedBy: user.id });
+    assert.equal(await storage.allocateSerialSequence(code, "", 1, tx), 1002);
+  });
+});
+
+test("issues default-format serials past 999 unpadded", { skip }, async () => {
+  const { storage } = await import("./storage");
+  const { allocateSerialNumbers } = await import("./serials");
+  const { DEFAULT_SERIAL_FORMAT } = await import("@shared/serialFormat");
+  await rolledBack(async (tx) => {
+    const code = uniqueCode();
+    await storage.allocateSerialSequence(code, "", 998, tx);
+    const planned = [0, 1, 2].map(() => ({
+      code, format: DEFAULT_SERIAL_FORMAT, reset: "never" as const, checkDigit: "none" as const,
+    }));
+    const numbers = await allocateSerialNumbers(planned, { issuedOn: new Date() }, tx);
+    assert.deepEqual(numbers.map((n) => n.serialNumber), [`${code}999`, `${code}1000`, `${code}1001`]);
+  });
+});
@@ -0,0 +1,666 @@
+import type {
+  InsertOrder,
+  InsertSerialReservation,
+  Machine,
+  Order,
+  OrderLine,
+  OrderSerialChanges,
+  OrderWithSerials,
+  Panel,
+  PanelPartWithPanel,
+  PendingSerialDecision,
+  PreviewSerial,
+  Serial,
+  SerialReservation,
+  UpdatedOrder,
+  UpdateOrder,
+} from "@shared/schema";
+import { renderSerialNumber, sequenceLimit, sequencePeriod, type SequenceResetPolicy } from "@shared/serialFormat";
+import { appendCheckDigit, type CheckDigitAlgorithm } from "@shared/checkDigit";
+import { isFinalOrderStatus, orderStandingProblems } from "@shared/orderLifecycle";
+import { db, type DbExecutor, type DbTransaction } from "./db";
+import { OrderEditError } from "./orders";
+import { storage } from "./storage";
+
+export class SerialGenerationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "SerialGenerationError";
+  }
+}
+
+export class SerialStatusError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "SerialStatusError";
+  }
+}
+
+// Raised when an order update lowers quantities without saying which of the
+// now surplus serials to void or scrap.
+export class SerialDecisionRequiredError extends Error {
+  constructor(public pending: PendingSerialDecision[]) {
+    super("Choose which serials to void or scrap for the reduced quantities");
+    this.name = "SerialDecisionRequiredError";
+  }
+}
+
+// Sequences are counted per item code and reset period, whatever template the
+// code renders through, so changing a format never restarts numbering.
+interface PlannedSerial {
+  machineId?: number;
+  panelId?: number;
+  code: string;
+  format: string;
+  reset: SequenceResetPolicy;
+  checkDigit: CheckDigitAlgorithm;
+  replacesSerialId?: number;
+  // What the serial is built into: the index of another serial in the same
+  // plan, or the id of one already issued.
+  parent?: number;
+  parentSerialId?: number;
+}
+
+function planMachineSerial(machine: Machine): PlannedSerial {
+  return {
+    machineId: machine.id,
+    code: machine.productCode,
+    format: machine.serialFormat,
+    reset: machine.sequenceReset,
+    checkDigit: machine.checkDigit,
+  };
+}
+
+function planPanelSerial(panel: Panel): PlannedSerial {
+  return {
+    panelId: panel.id,
+    code: panel.panelCode,
+    format: panel.serialFormat,
+    reset: panel.sequenceReset,
+    checkDigit: panel.checkDigit,
+  };
+}
+
+// One serial per machine unit, and under it one per serialised part in the
+// unit's bill of materials (every standard part and the optional ones the
+// line picked), each followed in turn by the parts it is built from. Parents
+// always come before their parts in the plan. Reads go through the caller's
+// transaction: one that waited on a second pooled connection could exhaust the
+// pool under concurrent orders.
+async function planOrderSerials(
+  lines: Pick<OrderLine, "machineId" | "quantity" | "optionalPanelIds">[],
+  executor: DbExecutor,
+): Promise<PlannedSerial[]> {
+  const planned: PlannedSerial[] = [];
+  const structure = new Map<number, PanelPartWithPanel[]>();
+
+  // Adds `part`, and everything it is built from, under the serial at `parent`.
+  const planPart = async (part: Panel, parent: number, path: number[]): Promise<void> => {
+    if (path.includes(part.id)) {
+      throw new SerialGenerationError(`${part.panelCode} is built from itself`);
+    }
+    const own = part.serialised ? planned.push({ ...planPanelSerial(part), parent }) - 1 : parent;
+    if (!structure.has(part.id)) {
+      structure.set(part.id, await storage.getPanelParts(part.id, executor));
+    }
+    for (const item of structure.get(part.id)!) {
+      for (let n = 0; n < item.quantity; n++) {
+        await planPart(item.panel, own, [...path, part.id]);
+      }
+    }
+  };
+
+  for (const line of lines) {
+    const machine = await storage.getMachine(line.machineId, executor);
+    if (!machine) {
+      throw new SerialGenerationError(`Machine ${line.machineId} does not exist`);
+    }
+
+    const billOfMaterials = await storage.getMachinePanels(machine.id, executor);
+    for (const panelId of line.optionalPanelIds) {
+      if (!billOfMaterials.some((item) => item.optional && item.panelId === panelId)) {
+        throw new SerialGenerationError(`Panel ${panelId} is not an optional panel of ${machine.productCode}`);
+      }
+    }
+
+    for (let unit = 0; unit < line.quantity; unit++) {
+      const unitIndex = planned.push(planMachineSerial(machine)) - 1;
+      for (const item of billOfMaterials) {
+        if (item.optional && !line.optionalPanelIds.includes(item.panelId)) continue;
+        for (let n = 0; n < item.quantity; n++) {
+          await planPart(item.panel, unitIndex, []);
+        }
+      }
+    }
+  }
+
+  return planned;
+}
+
+// Optional panels a kept line picked that its machine no longer offers as
+// optional (made standard or taken off the bill of materials) are dropped
+// rather than refused, so orders stay editable after the catalog changes.
+// Newly picked panels are still checked when the lines are planned.
+async function dropWithdrawnOptionalPanels<T extends Pick<OrderLine, "machineId" | "optionalPanelIds"> & { id?: number }>(
+  lines: T[],
+  existing: OrderLine[],
+  executor: DbExecutor,
+): Promise<T[]> {
+  const result: T[] = [];
+  for (const line of lines) {
+    const kept = existing.find((e) => e.id === line.id && e.machineId === line.machineId);
+    if (!kept) {
+      result.push(line);
+      continue;
+    }
+    const billOfMaterials = await storage.getMachinePanels(line.machineId, executor);
+    result.push({
+      ...line,
+      optionalPanelIds: line.optionalPanelIds.filter((panelId) =>
+        !kept.optionalPanelIds.includes(panelId) ||
+        billOfMaterials.some((item) => item.optional && item.panelId === panelId)),
+    });
+  }
+  return result;
+}
+
+// Machines whose lines were added, removed or changed in quantity or optional
+// panels. Notes, prices and configuration don't affect serials.
+function changedMachineIds(
+  existing: OrderLine[],
+  edited: Array<Pick<OrderLine, "machineId" | "quantity" | "optionalPanelIds"> & { id?: number }>,
+): Set<number> {
+  const signature = (line: Pick<OrderLine, "machineId" | "quantity" | "optionalPanelIds">) =>
+    JSON.stringify([line.machineId, line.quantity, [...line.optionalPanelIds].sort((a, b) => a - b)]);
+  const changed = new Set<number>();
+  for (const line of edited) {
+    const kept = existing.find((e) => e.id === line.id);
+    if (!kept || signature(kept) !== signature(line)) {
+      changed.add(line.machineId);
+      if (kept) changed.add(kept.machineId);
+    }
+  }
+  for (const line of existing) {
+    if (!edited.some((e) => e.id === line.id)) changed.add(line.machineId);
+  }
+  return changed;
+}
+
+const itemKey = (item: { machineId?: number | null; panelId?: number | null }) =>
+  item.machineId ? `machine:${item.machineId}` : `panel:${item.panelId}`;
+
+function countByItem(items: Array<{ machineId?: number | null; panelId?: number | null }>): Map<string, number> {
+  const counts = new Map<string, number>();
+  for (const item of items) {
+    counts.set(itemKey(item), (counts.get(itemKey(item)) ?? 0) + 1);
+  }
+  return counts;
+}
+
+// Pairs each planned serial with an issued one from the top down: a planned
+// serial takes an unpaired serial of the same item built into whatever its
+// parent was paired with. Serials issued before parts were linked have no
+// parent, so only pair up at machine level.
+function pairWithIssued(planned: PlannedSerial[], issued: Serial[]): Array<Serial | undefined> {
+  const unpaired = [...issued].sort((a, b) => a.id - b.id);
+  const paired: Array<Serial | undefined> = [];
+  planned.forEach((item, i) => {
+    const parentSerialId = item.parent !== undefined ? paired[item.parent]?.id : undefined;
+    if (item.parent !== undefined && parentSerialId === undefined) return;
+    const index = unpaired.findIndex((s) => itemKey(s) === itemKey(item) && (s.parentSerialId ?? undefined) === parentSerialId);
+    if (index >= 0) {
+      paired[i] = unpaired.splice(index, 1)[0];
+    }
+  });
+  return paired;
+}
+
+interface IssueContext {
+  issuedOn: Date;
+  // Reservations are made before the order exists, so these may be missing;
+  // formats that need them can't be reserved.
+  orderId?: number;
+  countryId?: number;
+}
+
+interface AllocatedNumber {
+  serialNumber: string;
+  sequence: number;
+}
+
+function renderPlannedSerial(item: PlannedSerial, sequence: number, context: IssueContext, countryCode: string): string {
+  return appendCheckDigit(renderSerialNumber(item.format, {
+    code: item.code,
+    date: context.issuedOn,
+    countryCode,
+    orderId: context.orderId ?? 0,
+    sequence,
+  }), item.checkDigit);
+}
+
+// Hands out `count` consecutive sequences of a code's counter in a period and
+// returns the first.
+type SequenceSource = (code: string, period: string, count: number) => Promise<number>;
+
+// Allocates sequences for the planned serials and renders their numbers.
+// Sequences only ever move forward, so a number that has been issued, even
+// one later voided or scrapped, is never handed out again. Exported for the
+// sequence tests.
+export async function allocateSerialNumbers(
+  planned: PlannedSerial[],
+  context: IssueContext,
+  executor: DbExecutor,
+  takeSequences: SequenceSource = (code, period, count) => storage.allocateSerialSequence(code, period, count, executor),
+): Promise<AllocatedNumber[]> {
+  const country = context.countryId !== undefined ? await storage.getCountry(context.countryId, executor) : undefined;
+  for (const item of planned) {
+    if (context.orderId === undefined && item.format.includes("{order}")) {
+      throw new SerialGenerationError(`Serials for ${item.code} include the order id and can't be issued without an order`);
+    }
+    if (!country && item.format.includes("{country}")) {
+      throw new SerialGenerationError(`Serials for ${item.code} include the country code; a country is required`);
+    }
+  }
+
+  const counterKey = (item: PlannedSerial) => JSON.stringify([item.code, sequencePeriod(item.reset, context.issuedOn)]);
+
+  // A number can already be taken when templates of different codes render
+  // alike (e.g. A1 under {seq:3} and A under {seq:4}); those sequences are
+  // skipped and the serial takes the next one.
+  const numbers: string[] = new Array(planned.length);
+  const sequences: number[] = new Array(planned.length);
+  let pending = planned.map((_, i) => i);
+  while (pending.length > 0) {
+    const counts = new Map<string, number>();
+    for (const i of pending) {
+      counts.set(counterKey(planned[i]), (counts.get(counterKey(planned[i])) ?? 0) + 1);
+    }
+
+    // Lock sequence rows in a fixed order so two orders sharing codes can't
+    // deadlock on each other.
+    const next = new Map<string, number>();
+    for (const key of Array.from(counts.keys()).sort()) {
+      const [code, period] = JSON.parse(key) as [string, string];
+      next.set(key, await takeSequences(code, period, counts.get(key)!));
+    }
+
+    for (const i of pending) {
+      const item = planned[i];
+      const key = counterKey(item);
+      const sequence = next.get(key)!;
+      next.set(key, sequence + 1);
+      const limit = sequenceLimit(item.format);
+      if (limit !== null && sequence > limit) {
+        throw new SerialGenerationError(`${item.code} has run out of sequence numbers; widen {seq} in its serial format`);
+      }
+      numbers[i] = renderPlannedSerial(item, sequence, context, country?.code ?? "");
+      sequences[i] = sequence;
+    }
+
+    const taken = new Set(await storage.getTakenSerialNumbers(pending.map((i) => numbers[i]), executor));
+    const retry = new Set(pending);
+    pending = pending.filter((i) => taken.has(numbers[i])
+      || numbers.some((n, k) => k !== i && n === numbers[i] && (k < i || !retry.has(k))));
+  }
+  return numbers.map((serialNumber, i) => ({ serialNumber, sequence: sequences[i] }));
+}
+
+// Picks the reservation each planned serial is issued from, if any. Numbers
+// reserved against the order's quote come first, then numbers released back
+// to the pool for the same item. A released number is only taken if its
+// sequence renders it the same way for this order today, so one drawn under an
+// older format, period or country stays unused. Taken reservations are
+// removed from `quoteReserved`, leaving the ones the order doesn't use.
+async function matchReservations(
+  planned: PlannedSerial[],
+  quoteReserved: SerialReservation[],
+  context: IssueContext & { countryId: number },
+  executor: DbExecutor,
+): Promise<Array<SerialReservation | undefined>> {
+  const released = await storage.getReleasedSerialReservations({
+    machineIds: planned.flatMap((item) => item.machineId ? [item.machineId] : []),
+    panelIds: planned.flatMap((item) => item.panelId ? [item.panelId] : []),
+  }, executor);
+  const countryCode = (await storage.getCountry(context.countryId, executor))?.code ?? "";
+  const rendersAlike = (reservation: SerialReservation, item: PlannedSerial) => reservation.sequence !== null
+    && renderPlannedSerial(item, reservation.sequence, context, countryCode) === reservation.serialNumber;
+
+  const take = (pool: SerialReservation[], item: PlannedSerial, reusable: (r: SerialReservation) => boolean = () => true) => {
+    const index = pool.findIndex((r) => (item.machineId ? r.machineId === item.machineId : r.panelId === item.panelId) && reusable(r));
+    return index >= 0 ? pool.splice(index, 1)[0] : undefined;
+  };
+  return planned.map((item) => take(quoteReserved, item) ?? take(released, item, (r) => rendersAlike(r, item)));
+}
+
+// Issues and inserts the planned serials of an order, from reservations where
+// there are any (see matchReservations) and otherwise from new sequences.
+// Quote reservations the order doesn't use are released or voided per their
+// policy.
+async function issueOrderSerials(
+  order: Order,
+  planned: PlannedSerial[],
+  options: { issuedOn: Date; addedBy: number; useQuoteReservations: boolean },
+  executor: DbExecutor,
+): Promise<Serial[]> {
+  await storage.expireSerialReservations(executor);
+  const quoteReserved = options.useQuoteReservations
+    ? await storage.getReservedSerialsForQuote(order.quoteNumber, executor)
+    : [];
+
+  const context = { issuedOn: options.issuedOn, orderId: order.id, countryId: order.countryId };
+  const reservations = await matchReservations(planned, quoteReserved, context, executor);
+  const freshNumbers = await allocateSerialNumbers(planned.filter((_, i) => !reservations[i]), context, executor);
+
+  let fresh = 0;
+  const numbers = planned.map((_, i) => reservations[i]?.serialNumber ?? freshNumbers[fresh++].serialNumber);
+
+  // A serial's parent has to exist before it does, so the plan is inserted a
+  // level of the tree at a time.
+  const newSerials: Serial[] = new Array(planned.length);
+  let level = planned.flatMap((item, i) => item.parent === undefined ? [i] : []);
+  while (level.length > 0) {
+    const inserted = await storage.createMultipleSerials(level.map((i) => ({
+      orderId: order.id,
+      machineId: planned[i].machineId,
+      panelId: planned[i].panelId,
+      serialNumber: numbers[i],
+      replacesSerialId: planned[i].replacesSerialId,
+      parentSerialId: planned[i].parent !== undefined ? newSerials[planned[i].parent!].id : planned[i].parentSerialId,
+      addedBy: options.addedBy,
+    })), executor);
+    for (const i of level) {
+      newSerials[i] = inserted.find((s) => s.serialNumber === numbers[i])!;
+    }
+    const parents = new Set(level);
+    level = planned.flatMap((item, i) => item.parent !== undefined && parents.has(item.parent) ? [i] : []);
+  }
+
+  for (const reservation of reservations) {
+    if (!reservation) continue;
+    const serial = newSerials.find((s) => s.serialNumber === reservation.serialNumber);
+    await storage.updateSerialReservation(reservation.id, { status: "Converted", serialId: serial?.id }, executor);
+  }
+  for (const leftover of quoteReserved) {
+    await storage.updateSerialReservation(leftover.id, {
+      status: leftover.releasePolicy === "void" ? "Voided" : "Released",
+    }, executor);
+  }
+
+  return newSerials;
+}
+
+async function insertOrderWithSerials(order: InsertOrder, tx: DbTransaction): Promise<OrderWithSerials> {
+  const newOrder = await storage.createOrder(order, tx);
+  const newSerials = await issueOrderSerials(newOrder, await planOrderSerials(newOrder.lines, tx), {
+    issuedOn: newOrder.createdAt ?? new Date(),
+    addedBy: newOrder.addedBy,
+    useQuoteReservations: true,
+  }, tx);
+  return { ...newOrder, serials: newSerials };
+}
+
+// Inserts the order and all of its serials in one transaction; if any serial
+// fails to generate or insert, the order is rolled back with it.
+export async function createOrderWithSerials(order: InsertOrder): Promise<OrderWithSerials> {
+  return await db.transaction(async (tx) => await insertOrderWithSerials(order, tx));
+}
+
+// Applies an order update. When the lines change, the serials planned for
+// the old and new lines of each machine whose quantities or optional panels
+// changed are compared item by item, both against today's bill of materials:
+// increases get new serials, built into the serials their parents already
+// have where there are any, and decreases retire exactly as many active
+// serials as the caller chose in `serialDecisions`. Anything left undecided
+// fails the whole update with a SerialDecisionRequiredError listing the
+// candidates. Serials of machines whose lines didn't change are left alone,
+// whatever the catalog has done since they were issued.
+export async function updateOrderWithSerials(
+  id: number,
+  update: UpdateOrder,
+  userId: number,
+): Promise<UpdatedOrder | undefined> {
+  const { serialDecisions, lines, ...changes } = update;
+
+  return await db.transaction(async (tx) => {
+    const existing = await storage.getOrderForUpdate(id, tx);
+    if (!existing) return undefined;
+
+    if (lines && isFinalOrderStatus(existing.progressStatus)) {
+      throw new OrderEditError(`Lines can't be changed once an order is ${existing.progressStatus.toLowerCase()}`);
+    }
+    // Only problems this edit would cause count, so orders saved before a
+    // requirement existed can still be edited.
+    const standing = orderStandingProblems(existing);
+    const problems = orderStandingProblems({ ...existing, ...changes }).filter((problem) => !standing.includes(problem));
+    if (problems.length > 0) {
+      throw new OrderEditError(problems.join("; "));
+    }
+
+    const serialChanges: OrderSerialChanges = { issued: [], voided: [], scrapped: [] };
+    const order = Object.keys(changes).length > 0
+      ? await storage.updateOrder(id, changes, userId, tx)
+      : existing;
+    if (!lines) {
+      if (serialDecisions.length > 0) {
+        throw new SerialStatusError("Serials can only be retired here when machine quantities go down");
+      }
+      return await loadUpdatedOrder(id, serialChanges, tx);
+    }
+
+    const existingLines = await storage.getOrderLines(id, tx);
+    const currentLines = await dropWithdrawnOptionalPanels(existingLines, existingLines, tx);
+    const editedLines = await dropWithdrawnOptionalPanels(lines, existingLines, tx);
+    const changed = changedMachineIds(currentLines, editedLines);
+    const before = countByItem(await planOrderSerials(currentLines.filter((line) => changed.has(line.machineId)), tx));
+    const planned = await planOrderSerials(editedLines.filter((line) => changed.has(line.machineId)), tx);
+    const after = countByItem(planned);
+
+    const activeSerials = (await storage.getSerialsByOrder(id, tx)).filter((s) => s.status === "Active");
+
+    for (const decision of serialDecisions) {
+      const serial = activeSerials.find((s) => s.id === decision.serialId);
+      if (!serial) {
+        throw new SerialStatusError(`Serial ${decision.serialId} is not an active serial of order ${id}`);
+      }
+      if (!before.has(itemKey(serial)) && !after.has(itemKey(serial))) {
+        throw new SerialStatusError("Serials can only be retired here when machine quantities go down");
+      }
+    }
+
+    const pending: PendingSerialDecision[] = [];
+    for (const key of Array.from(new Set([...Array.from(before.keys()), ...Array.from(after.keys())]))) {
+      const candidates = activeSerials.filter((s) => itemKey(s) === key);
+      const chosen = candidates.filter((s) => serialDecisions.some((d) => d.serialId === s.id));
+      // Parts added to the bill of materials after the order was built were
+      // never issued, so there may be fewer serials than the plan drops.
+      const required = Math.min(candidates.length, Math.max(0, (before.get(key) ?? 0) - (after.get(key) ?? 0)));
+      if (chosen.length !== required) {
+        pending.push({
+          machineId: candidates[0]?.machineId ?? undefined,
+          panelId: candidates[0]?.panelId ?? undefined,
+          count: required,
+          candidates,
+        });
+      }
+    }
+    if (pending.length > 0) {
+      throw new SerialDecisionRequiredError(pending);
+    }
+
+    for (const decision of serialDecisions) {
+      const status = decision.action === "void" ? "Voided" : "Scrapped";
+      const serial = await storage.updateSerialStatus(decision.serialId, {
+        status,
+        reason: decision.reason,
+        changedBy: userId,
+      }, tx);
+      (status === "Voided" ? serialChanges.voided : serialChanges.scrapped).push(serial!);
+    }
+
+    await storage.setOrderLines(id, editedLines, userId, tx);
+
+    const remaining = activeSerials.filter((s) => !serialDecisions.some((d) => d.serialId === s.id));
+    const paired = pairWithIssued(planned, remaining);
+    const missing = new Map(Array.from(after, ([key, count]) => [key, count - (before.get(key) ?? 0)]));
+    // New units take their whole bill of materials first; what is left goes to
+    // units already built, e.g. for an optional panel picked afterwards.
+    const isNewUnit = (i: number): boolean => planned[i].parent === undefined ? !paired[i] : isNewUnit(planned[i].parent!);
+    const added: number[] = [];
+    for (const i of planned.map((_, i) => i).sort((a, b) => Number(isNewUnit(b)) - Number(isNewUnit(a)) || a - b)) {
+      const item = planned[i];
+      if (!paired[i] && (missing.get(itemKey(item)) ?? 0) > 0) {
+        added.push(i);
+        missing.set(itemKey(item), missing.get(itemKey(item))! - 1);
+      }
+    }
+    // Parents are issued before their parts.
+    added.sort((a, b) => a - b);
+    // Parents that are neither issued nor being added (e.g. voided without a
+    // replacement) are skipped for the nearest one above that is.
+    const additions = added.map((i): PlannedSerial => {
+      let parent = planned[i].parent;
+      while (parent !== undefined && !paired[parent] && !added.includes(parent)) {
+        parent = planned[parent].parent;
+      }
+      return {
+        ...planned[i],
+        parent: parent !== undefined && added.includes(parent) ? added.indexOf(parent) : undefined,
+        parentSerialId: parent !== undefined ? paired[parent]?.id : undefined,
+      };
+    });
+    serialChanges.issued = await issueOrderSerials(order, additions, {
+      issuedOn: new Date(),
+      addedBy: userId,
+      useQuoteReservations: false,
+    }, tx);
+
+    return await loadUpdatedOrder(id, serialChanges, tx);
+  });
+}
+
+async function loadUpdatedOrder(id: number, serialChanges: OrderSerialChanges, tx: DbTransaction): Promise<UpdatedOrder> {
+  const order = await storage.getOrderWithRelations(id, tx);
+  return { ...order!, serialChanges };
+}
+
+// The serials creating the order right now would issue, worked out from the
+// current counters without taking anything, so previews neither use up
+// sequences nor wait on the locks real orders hold. Orders created in the
+// meantime can move the numbers on, and {order} tokens show a guess at the id.
+export async function previewOrderSerials(
+  order: Pick<InsertOrder, "countryId" | "quoteNumber" | "lines">,
+): Promise<PreviewSerial[]> {
+  const planned = await planOrderSerials(order.lines, db);
+  const issuedOn = new Date();
+  const quoteReserved = (await storage.getReservedSerialsForQuote(order.quoteNumber))
+    .filter((r) => r.expiresAt > issuedOn);
+
+  const context = { issuedOn, orderId: await storage.estimateNextOrderId(), countryId: order.countryId };
+  const reservations = await matchReservations(planned, quoteReserved, context, db);
+
+  const counters = new Map<string, number>();
+  const freshNumbers = await allocateSerialNumbers(
+    planned.filter((_, i) => !reservations[i]),
+    context,
+    db,
+    async (code, period, count) => {
+      const key = JSON.stringify([code, period]);
+      const first = (counters.get(key) ?? await storage.getSerialSequenceValue(code, period)) + 1;
+      counters.set(key, first + count - 1);
+      return first;
+    },
+  );
+
+  let fresh = 0;
+  return planned.map((item, i) => ({
+    machineId: item.machineId,
+    panelId: item.panelId,
+    serialNumber: reservations[i]?.serialNumber ?? freshNumbers[fresh++].serialNumber,
+    parent: item.parent,
+  }));
+}
+
+// Sets aside a block of numbers for a quote. They come out of the regular
+// sequences straight away, so nothing issued in the meantime can take them.
+export async function reserveSerials(request: InsertSerialReservation): Promise<SerialReservation[]> {
+  const item = request.machineId
+    ? await storage.getMachine(request.machineId).then((m) => m && planMachineSerial(m))
+    : await storage.getPanel(request.panelId!).then((p) => {
+      if (p && !p.serialised) {
+        throw new SerialGenerationError(`${p.panelCode} is not serialised`);
+      }
+      return p && planPanelSerial(p);
+    });
+  if (!item) {
+    throw new SerialGenerationError(`${request.machineId ? "Machine" : "Panel"} does not exist`);
+  }
+
+  return await db.transaction(async (tx) => {
+    const numbers = await allocateSerialNumbers(
+      Array.from({ length: request.quantity }, () => item),
+      { issuedOn: new Date(), countryId: request.countryId },
+      tx,
+    );
+    return await storage.createSerialReservations(numbers.map(({ serialNumber, sequence }) => ({
+      quoteNumber: request.quoteNumber,
+      machineId: request.machineId,
+      panelId: request.panelId,
+      serialNumber,
+      sequence,
+      releasePolicy: request.releasePolicy,
+      expiresAt: request.expiresAt,
+      reservedBy: request.reservedBy,
+    })), tx);
+  });
+}
+
+// Takes an active serial out of service. Voided and scrapped serials keep
+// their row, so the number stays on record and can't be issued again.
+export async function retireSerial(
+  id: number,
+  status: "Voided" | "Scrapped",
+  reason: string,
+  userId: number,
+): Promise<Serial> {
+  const serial = await storage.updateSerialStatus(id, { status, reason, changedBy: userId });
+  if (!serial) {
+    throw new SerialStatusError(`Serial ${id} is not active`);
+  }
+  return serial;
+}
+
+// Marks an active serial as replaced and issues a fresh number for the same
+// machine or panel, linked back to the one it replaces. The replacement goes
+// where the old serial was in the unit and takes over the serials built into it.
+export async function replaceSerial(
+  id: number,
+  reason: string,
+  userId: number,
+): Promise<{ replaced: Serial; replacement: Serial }> {
+  return await db.transaction(async (tx) => {
+    const replaced = await storage.updateSerialStatus(id, { status: "Replaced", reason, changedBy: userId }, tx);
+    if (!replaced) {
+      throw new SerialStatusError(`Serial ${id} is not active`);
+    }
+
+    const order = await storage.getOrder(replaced.orderId, tx);
+    const item = replaced.machineId
+      ? await storage.getMachine(replaced.machineId, tx).then((m) => m && planMachineSerial(m))
+      : await storage.getPanel(replaced.panelId!, tx).then((p) => p && planPanelSerial(p));
+    if (!order || !item) {
+      throw new SerialGenerationError(`The item serial ${replaced.serialNumber} was issued for no longer exists`);
+    }
+
+    const [replacement] = await issueOrderSerials(order, [{
+      ...item,
+      replacesSerialId: replaced.id,
+      parentSerialId: replaced.parentSerialId ?? undefined,
+    }], {
+      issuedOn: new Date(),
+      addedBy: userId,
+      useQuoteReservations: false,
+    }, tx);
+    await storage.moveChildSerials(replaced.id, replacement.id, userId, tx);
+    return { replaced, replacement };
+  });
+}
@@ -1,54 +1,290 @@
 import { 
-  countries, users, machines, panels, orders, serials,
+  countries, roles, users, userSessions, passwordResetTokens, loginChallenges, recoveryCodes, machines, panels, machinePanels, panelParts, orders, orderLines, serials, serialSequences, serialReservations, auditEvents,
   type Country, type InsertCountry,
-  type User, type InsertUser,
-  type Machine, type InsertMachine,
-  type Panel, type InsertPanel,
-  type Order, type InsertOrder,
-  type Serial, type InsertSerial
+  type User, type InsertUser, type UpdateUser, type PublicUser,
+  type Role, type InsertRole, type UpdateRole,
+  type UserSession, type InsertUserSession, type PublicUserSession,
+  type Machine, type InsertMachine, type MachineLookup,
+  type Panel, type InsertPanel, type PanelLookup, type MachinePanel, type MachinePanelWithPanel, type MachinePanelsInput,
+  type PanelPart, type PanelPartWithPanel, type PanelPartsInput,
+  type Order, type InsertOrder, type OrderChanges, type OrderLine, type OrderLineInput, type OrderWithLines, type OrderWithCountry, type OrderWithRelations,
+  type Serial, type InsertSerial, type SerialStatus, type SerialWithRelations,
+  type SerialSequence,
+  type SerialReservation, type ReservationStatus,
+  type AuditEntityType, type AuditChanges, type AuditEventWithActor,
+  type UserListQuery, type MachineListQuery, type PanelListQuery, type OrderListQuery, type SerialListQuery, type AuditEventListQuery, type Page
 } from "@shared/schema";
-import { db } from "./db";
-import { eq, desc, and } from "drizzle-orm";
+import { db, type DbExecutor } from "./db";
+import { eq, ne, desc, asc, and, or, sql, lt, gt, gte, ilike, isNull, isNotNull, inArray, getTableColumns, type AnyColumn, type SQL } from "drizzle-orm";
 import bcrypt from "bcrypt";
+import type { CheckDigitRule } from "@shared/checkDigit";
+import { passwordPolicyProblems } from "@shared/password";
+import type { OrderStatus } from "@shared/orderLifecycle";
 
 export interface IStorage {
   // Users
   getUser(id: number): Promise<User | undefined>;
   getUserByUsername(username: string): Promise<User | undefined>;
   getUserByEmail(email: string): Promise<User | undefined>;
-  createUser(user: InsertUser): Promise<User>;
+  createUser(user: InsertUser, actorId: number | null): Promise<User>;
+  getUsers(query: UserListQuery): Promise<Page<PublicUser>>;
+  updateUser(id: number, user: UpdateUser, actorId: number): Promise<User | undefined>;
+  countUsersWithRole(role: string): Promise<number>;
+  setUserPassword(id: number, password: string, actorId: number): Promise<User | undefined>;
+  createPasswordResetToken(userId: number, tokenHash: string, expiresAt: Date): Promise<void>;
+  consumePasswordResetToken(tokenHash: string): Promise<number | undefined>;
+
+  // Two-factor
+  setPendingTotpSecret(userId: number, secret: string): Promise<void>;
+  enableTotp(userId: number, step: number, recoveryCodeHashes: string[]): Promise<void>;
+  disableTotp(userId: number, actorId: number): Promise<void>;
+  recordTotpStep(userId: number, step: number): Promise<boolean>;
+  replaceRecoveryCodes(userId: number, codeHashes: string[], executor?: DbExecutor): Promise<void>;
+  consumeRecoveryCode(userId: number, codeHash: string): Promise<boolean>;
+  countRecoveryCodes(userId: number): Promise<number>;
+  createLoginChallenge(userId: number, expiresAt: Date): Promise<number>;
+  claimLoginChallengeAttempt(challengeId: number, userId: number, limits: LoginAttemptLimits): Promise<LoginAttemptResult>;
+  consumeLoginChallenge(challengeId: number): Promise<boolean>;
+
+  // Sessions
+  createSession(session: InsertUserSession): Promise<UserSession>;
+  getSession(id: number): Promise<UserSession | undefined>;
+  getActiveSessions(userId: number): Promise<PublicUserSession[]>;
+  rotateSessionToken(refreshTokenHash: string, newRefreshTokenHash: string, expiresAt: Date): Promise<UserSession | undefined>;
+  revokeSessionByRefreshToken(refreshTokenHash: string): Promise<void>;
+  revokeSession(userId: number, sessionId: number): Promise<boolean>;
+  revokeUserSessions(userId: number, exceptSessionId?: number): Promise<void>;
+
+  // Roles
+  getRoles(): Promise<Role[]>;
+  getRole(name: string): Promise<Role | undefined>;
+  createRole(role: InsertRole): Promise<Role>;
+  createMissingRoles(roles: InsertRole[]): Promise<void>;
+  updateRole(name: string, role: UpdateRole): Promise<Role | undefined>;
+  deleteRole(name: string): Promise<void>;
   
   // Countries
   getCountries(): Promise<Country[]>;
+  getCountry(id: number, executor?: DbExecutor): Promise<Country | undefined>;
   
   // Machines
-  getMachines(): Promise<Machine[]>;
-  getMachine(id: number): Promise<Machine | undefined>;
+  getMachines(query: MachineListQuery): Promise<Page<Machine>>;
+  getMachineLookup(): Promise<MachineLookup[]>;
+  getMachine(id: number, executor?: DbExecutor): Promise<Machine | undefined>;
   createMachine(machine: InsertMachine): Promise<Machine>;
-  updateMachine(id: number, machine: Partial<InsertMachine>): Promise<Machine>;
-  deleteMachine(id: number): Promise<void>;
+  updateMachine(id: number, machine: Partial<InsertMachine>, actorId: number): Promise<Machine>;
+  deleteMachine(id: number, actorId: number): Promise<void>;
+
+  // Bills of materials
+  getAllMachinePanels(): Promise<MachinePanel[]>;
+  getMachinePanels(machineId: number, executor?: DbExecutor): Promise<MachinePanelWithPanel[]>;
+  setMachinePanels(machineId: number, items: MachinePanelsInput, actorId: number): Promise<MachinePanelWithPanel[]>;
+  moveLegacyPanelParents(): Promise<void>;
+  getAllPanelParts(): Promise<PanelPart[]>;
+  getPanelParts(panelId: number, executor?: DbExecutor): Promise<PanelPartWithPanel[]>;
+  setPanelParts(panelId: number, items: PanelPartsInput, actorId: number): Promise<PanelPartWithPanel[]>;
   
   // Panels
-  getPanels(): Promise<Panel[]>;
-  getPanelsByMachine(machineId: number): Promise<Panel[]>;
-  getPanel(id: number): Promise<Panel | undefined>;
+  getPanels(query: PanelListQuery): Promise<Page<Panel>>;
+  getPanelLookup(): Promise<PanelLookup[]>;
+  getCheckDigitRules(): Promise<CheckDigitRule[]>;
+  getPanel(id: number, executor?: DbExecutor): Promise<Panel | undefined>;
   createPanel(panel: InsertPanel): Promise<Panel>;
-  updatePanel(id: number, panel: Partial<InsertPanel>): Promise<Panel>;
-  deletePanel(id: number): Promise<void>;
+  updatePanel(id: number, panel: Partial<InsertPanel>, actorId: number): Promise<Panel>;
+  deletePanel(id: number, actorId: number, executor?: DbExecutor): Promise<void>;
   
   // Orders
-  getOrders(): Promise<Order[]>;
-  getOrder(id: number): Promise<Order | undefined>;
-  createOrder(order: InsertOrder): Promise<Order>;
-  updateOrder(id: number, order: Partial<InsertOrder>): Promise<Order>;
-  deleteOrder(id: number): Promise<void>;
+  getOrders(query: OrderListQuery): Promise<Page<OrderWithCountry>>;
+  getOrder(id: number, executor?: DbExecutor): Promise<Order | undefined>;
+  getOrderWithRelations(id: number, executor?: DbExecutor): Promise<OrderWithRelations | undefined>;
+  getOrderForUpdate(id: number, executor?: DbExecutor): Promise<Order | undefined>;
+  estimateNextOrderId(): Promise<number>;
+  createOrder(order: InsertOrder, executor?: DbExecutor): Promise<OrderWithLines>;
+  updateOrder(id: number, order: OrderChanges, actorId: number, executor?: DbExecutor): Promise<Order>;
+  deleteOrder(id: number, actorId: number): Promise<void>;
+  renameOrderStatuses(renames: Record<string, OrderStatus>): Promise<void>;
+  moveLegacyOrderLines(): Promise<void>;
+
+  // Order lines
+  getOrderLines(orderId: number, executor?: DbExecutor): Promise<OrderLine[]>;
+  setOrderLines(orderId: number, lines: OrderLineInput[], actorId: number, executor?: DbExecutor): Promise<OrderLine[]>;
   
   // Serials
-  getSerials(): Promise<Serial[]>;
-  getSerialsByOrder(orderId: number): Promise<Serial[]>;
-  getLastSerialByPrefix(prefix: string): Promise<Serial | undefined>;
+  getSerials(query: SerialListQuery): Promise<Page<SerialWithRelations>>;
+  getSerialsByOrder(orderId: number, executor?: DbExecutor): Promise<Serial[]>;
+  getSerial(id: number): Promise<Serial | undefined>;
+  getSerialByNumber(serialNumber: string): Promise<Serial | undefined>;
+  updateSerialStatus(
+    id: number,
+    change: { status: Exclude<SerialStatus, "Active">; reason: string; changedBy: number },
+    executor?: DbExecutor,
+  ): Promise<Serial | undefined>;
+  moveChildSerials(fromSerialId: number, toSerialId: number, actorId: number, executor?: DbExecutor): Promise<void>;
+  getNextSerialSequence(prefix: string, executor?: DbExecutor): Promise<number>;
+  getSerialSequences(): Promise<SerialSequence[]>;
+  hasSerialSequence(prefix: string): Promise<boolean>;
+  hasIssuedSerials(item: { machineId?: number; panelId?: number }): Promise<boolean>;
+  getTakenSerialNumbers(serialNumbers: string[], executor?: DbExecutor): Promise<string[]>;
+  getSerialSequenceValue(prefix: string, period: string, executor?: DbExecutor): Promise<number>;
+  allocateSerialSequence(prefix: string, period: string, count: number, executor?: DbExecutor): Promise<number>;
   createSerial(serial: InsertSerial): Promise<Serial>;
-  createMultipleSerials(serials: InsertSerial[]): Promise<Serial[]>;
+  createMultipleSerials(serials: InsertSerial[], executor?: DbExecutor): Promise<Serial[]>;
+
+  // Audit trail
+  getAuditEvents(query: AuditEventListQuery): Promise<Page<AuditEventWithActor>>;
+  getOrderHistory(orderId: number): Promise<AuditEventWithActor[]>;
+}
+
+// How many codes may be tried against one login challenge, and against all of
+// a user's unanswered challenges created since `since`.
+export interface LoginAttemptLimits {
+  perChallenge: number;
+  perUser: number;
+  since: Date;
+}
+
+export type LoginAttemptResult = "allowed" | "invalid" | "throttled";
+
+// Serials are never deleted, so an order that has any can only be cancelled.
+export class OrderHasSerialsError extends Error {
+  constructor() {
+    super("Orders with issued serials can't be deleted; cancel the order instead");
+    this.name = "OrderHasSerialsError";
+  }
+}
+
+// Order lines, serials and reservations keep pointing at the machine or part
+// they were made for, so those can't be deleted once anything uses them.
+export class CatalogItemInUseError extends Error {
+  constructor(item: "Machines" | "Parts") {
+    super(`${item} used by orders, serials or reservations can't be deleted`);
+    this.name = "CatalogItemInUseError";
+  }
+}
+
+// Parts that would end up containing themselves, directly or further down.
+export class PartCycleError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "PartCycleError";
+  }
+}
+
+// A password that doesn't meet the policy in shared/password.ts.
+export class PasswordPolicyError extends Error {
+  constructor(public problems: string[]) {
+    super(problems.join(". "));
+    this.name = "PasswordPolicyError";
+  }
+}
+
+async function hashPassword(password: string): Promise<string> {
+  const problems = passwordPolicyProblems(password);
+  if (problems.length > 0) {
+    throw new PasswordPolicyError(problems);
+  }
+  return await bcrypt.hash(password, 10);
+}
+
+// Building blocks for the paginated list queries.
+function containsPattern(term: string): string {
+  return `%${term.replace(/[\\%_]/g, "\\$&")}%`;
+}
+
+function sortBy(column: AnyColumn, order: "asc" | "desc"): SQL {
+  return order === "asc" ? asc(column) : desc(column);
+}
+
+// `to` is a calendar date, so the range includes the whole of that day.
+function dateRange(column: AnyColumn, from?: Date, to?: Date): SQL[] {
+  const conditions: SQL[] = [];
+  if (from) conditions.push(gte(column, from));
+  if (to) conditions.push(lt(column, new Date(to.getTime() + 24 * 60 * 60 * 1000)));
+  return conditions;
+}
+
+function pageOf<T>(items: T[], total: number, query: { page: number; pageSize: number }): Page<T> {
+  return { items, total, page: query.page, pageSize: query.pageSize };
+}
+
+// Audit trail. Every write to an audited table goes through recordAudit in
+// the same transaction, so the trail can't miss a change that happened.
+const UNAUDITED_FIELDS = new Set(["totpSecret", "totpLastStep"]);
+// Recorded as changed, without the value.
+const REDACTED_FIELDS = new Set(["password"]);
+
+interface AuditedChange {
+  entityType: AuditEntityType;
+  entityId: number;
+  entityLabel: string;
+  orderId?: number;
+  actorId: number | null;
+  // Missing for a creation.
+  before?: object;
+  // Missing for a deletion.
+  after?: object;
+}
+
+function auditValue(field: string, value: unknown): unknown {
+  if (value === undefined || value === null) return null;
+  return REDACTED_FIELDS.has(field) ? "[redacted]" : value;
+}
+
+function diffRows(before: object = {}, after: object = {}): AuditChanges {
+  const from = before as Record<string, unknown>;
+  const to = after as Record<string, unknown>;
+  const changes: AuditChanges = {};
+  for (const field of Array.from(new Set([...Object.keys(from), ...Object.keys(to)]))) {
+    if (UNAUDITED_FIELDS.has(field) || JSON.stringify(from[field] ?? null) === JSON.stringify(to[field] ?? null)) {
+      continue;
+    }
+    changes[field] = { from: auditValue(field, from[field]), to: auditValue(field, to[field]) };
+  }
+  return changes;
+}
+
+// Updates that leave every audited field as it was aren't recorded.
+async function recordAudit(executor: DbExecutor, changes: AuditedChange[]): Promise<void> {
+  const events = changes.flatMap(({ before, after, ...event }) => {
+    const diff = diffRows(before, after);
+    if (before && after && Object.keys(diff).length === 0) return [];
+    return [{ ...event, action: !before ? "create" as const : !after ? "delete" as const : "update" as const, changes: diff }];
+  });
+  if (events.length === 0) return;
+  await executor.insert(auditEvents).values(events);
+}
+
+const machineSubject = (machine: Machine) =>
+  ({ entityType: "machine" as const, entityId: machine.id, entityLabel: `${machine.productCode} ${machine.name}` });
+const panelSubject = (panel: Panel) =>
+  ({ entityType: "panel" as const, entityId: panel.id, entityLabel: `${panel.panelCode} ${panel.name}` });
+const orderSubject = (order: Order) =>
+  ({ entityType: "order" as const, entityId: order.id, entityLabel: `#${order.id} ${order.customerName}`, orderId: order.id });
+const orderLineSubject = (line: OrderLine, machineCodes: Map<number, string>) => ({
+  entityType: "order_line" as const,
+  entityId: line.id,
+  entityLabel: `#${line.orderId} ${machineCodes.get(line.machineId) ?? `machine ${line.machineId}`}`,
+  orderId: line.orderId,
+});
+const serialSubject = (serial: Serial) =>
+  ({ entityType: "serial" as const, entityId: serial.id, entityLabel: serial.serialNumber, orderId: serial.orderId });
+const userSubject = (user: User) =>
+  ({ entityType: "user" as const, entityId: user.id, entityLabel: user.username });
+
+const auditActor = { actor: { columns: { id: true, username: true } } } as const;
+
+// "P01 Control Panel x2 (optional)"
+const bomItemLabel = (item: MachinePanelWithPanel | PanelPartWithPanel) =>
+  `${item.panel.panelCode} ${item.panel.name} x${item.quantity}${"optional" in item && item.optional ? " (optional)" : ""}`;
+
+// Order line labels name the machine, which the line row only has the id of.
+async function machineCodesFor(executor: DbExecutor, lines: OrderLine[]): Promise<Map<number, string>> {
+  if (lines.length === 0) return new Map();
+  const rows = await executor
+    .select({ id: machines.id, productCode: machines.productCode })
+    .from(machines)
+    .where(inArray(machines.id, lines.map((line) => line.machineId)));
+  return new Map(rows.map((row) => [row.id, row.productCode]));
 }
 
 export class DatabaseStorage implements IStorage {
@@ -68,13 +304,335 @@ export class DatabaseStorage implements IStorage {
     return user || undefined;
   }
 
-  async createUser(insertUser: InsertUser): Promise<User> {
-    const hashedPassword = await bcrypt.hash(insertUser.password, 10);
-    const [user] = await db
-      .insert(users)
-      .values({ ...insertUser, password: hashedPassword })
+  async createUser(insertUser: InsertUser, actorId: number | null): Promise<User> {
+    const hashedPassword = await hashPassword(insertUser.password);
+    return await db.transaction(async (tx) => {
+      const [user] = await tx
+        .insert(users)
+        .values({ ...insertUser, password: hashedPassword })
+        .returning();
+      await recordAudit(tx, [{ ...userSubject(user), actorId, after: user }]);
+      return user;
+    });
+  }
+
+  async getUsers(query: UserListQuery): Promise<Page<PublicUser>> {
+    const { password, totpSecret, totpLastStep, ...publicColumns } = getTableColumns(users);
+    const where = and(
+      query.search
+        ? or(ilike(users.username, containsPattern(query.search)), ilike(users.email, containsPattern(query.search)))
+        : undefined,
+      query.role ? eq(users.role, query.role) : undefined,
+      query.isActive !== undefined ? eq(users.isActive, query.isActive) : undefined,
+    );
+    const [items, total] = await Promise.all([
+      db.select(publicColumns).from(users)
+        .where(where)
+        .orderBy(sortBy(users[query.sort], query.order), asc(users.id))
+        .limit(query.pageSize)
+        .offset((query.page - 1) * query.pageSize),
+      db.$count(users, where),
+    ]);
+    return pageOf(items, total, query);
+  }
+
+  async updateUser(id: number, user: UpdateUser, actorId: number): Promise<User | undefined> {
+    return await this.updateUserRow(id, user, actorId);
+  }
+
+  // Applies and audits a change to a user row.
+  private async updateUserRow(
+    id: number,
+    changes: Partial<typeof users.$inferInsert>,
+    actorId: number,
+    executor: DbExecutor = db,
+  ): Promise<User | undefined> {
+    return await executor.transaction(async (tx) => {
+      const [before] = await tx.select().from(users).where(eq(users.id, id)).for("update");
+      if (!before) return undefined;
+      const [user] = await tx
+        .update(users)
+        .set(changes)
+        .where(eq(users.id, id))
+        .returning();
+      await recordAudit(tx, [{ ...userSubject(user), actorId, before, after: user }]);
+      return user;
+    });
+  }
+
+  async countUsersWithRole(role: string): Promise<number> {
+    return await db.$count(users, eq(users.role, role));
+  }
+
+  // Also clears mustChangePassword, since the user has now picked a password.
+  async setUserPassword(id: number, password: string, actorId: number): Promise<User | undefined> {
+    const hashedPassword = await hashPassword(password);
+    return await this.updateUserRow(id, { password: hashedPassword, mustChangePassword: false }, actorId);
+  }
+
+  // A new token replaces any the user still had outstanding.
+  async createPasswordResetToken(userId: number, tokenHash: string, expiresAt: Date): Promise<void> {
+    await db.transaction(async (tx) => {
+      await tx
+        .update(passwordResetTokens)
+        .set({ usedAt: new Date() })
+        .where(and(eq(passwordResetTokens.userId, userId), isNull(passwordResetTokens.usedAt)));
+      await tx.insert(passwordResetTokens).values({ userId, tokenHash, expiresAt });
+    });
+  }
+
+  // Marks the token used and returns its user, or undefined when the token is
+  // unknown, expired or already used. Done in one statement so a token can't
+  // be redeemed twice.
+  async consumePasswordResetToken(tokenHash: string): Promise<number | undefined> {
+    const [token] = await db
+      .update(passwordResetTokens)
+      .set({ usedAt: new Date() })
+      .where(and(
+        eq(passwordResetTokens.tokenHash, tokenHash),
+        isNull(passwordResetTokens.usedAt),
+        gt(passwordResetTokens.expiresAt, new Date()),
+      ))
+      .returning({ userId: passwordResetTokens.userId });
+    return token?.userId;
+  }
+
+  // Roles
+  async getRoles(): Promise<Role[]> {
+    return await db.select().from(roles).orderBy(asc(roles.name));
+  }
+
+  async getRole(name: string): Promise<Role | undefined> {
+    const [role] = await db.select().from(roles).where(eq(roles.name, name));
+    return role || undefined;
+  }
+
+  async createRole(insertRole: InsertRole): Promise<Role> {
+    const [role] = await db
+      .insert(roles)
+      .values(insertRole)
+      .returning();
+    return role;
+  }
+
+  // Adds the given roles unless a role of that name already exists, so roles
+  // an admin has since edited are left alone.
+  async createMissingRoles(insertRoles: InsertRole[]): Promise<void> {
+    await db.insert(roles).values(insertRoles).onConflictDoNothing({ target: roles.name });
+  }
+
+  async updateRole(name: string, role: UpdateRole): Promise<Role | undefined> {
+    const [updatedRole] = await db
+      .update(roles)
+      .set(role)
+      .where(eq(roles.name, name))
+      .returning();
+    return updatedRole || undefined;
+  }
+
+  async deleteRole(name: string): Promise<void> {
+    await db.delete(roles).where(eq(roles.name, name));
+  }
+
+  // Two-factor
+  // Stores a secret for the user to enrol with; two-factor stays off until
+  // enableTotp.
+  async setPendingTotpSecret(userId: number, secret: string): Promise<void> {
+    await db
+      .update(users)
+      .set({ totpSecret: secret, totpEnabledAt: null, totpLastStep: null })
+      .where(eq(users.id, userId));
+  }
+
+  // Only the user themselves can turn two-factor on.
+  async enableTotp(userId: number, step: number, recoveryCodeHashes: string[]): Promise<void> {
+    await db.transaction(async (tx) => {
+      await this.updateUserRow(userId, { totpEnabledAt: new Date(), totpLastStep: step }, userId, tx);
+      await this.replaceRecoveryCodes(userId, recoveryCodeHashes, tx);
+    });
+  }
+
+  async disableTotp(userId: number, actorId: number): Promise<void> {
+    await db.transaction(async (tx) => {
+      await this.updateUserRow(userId, { totpSecret: null, totpEnabledAt: null, totpLastStep: null }, actorId, tx);
+      await tx.delete(recoveryCodes).where(eq(recoveryCodes.userId, userId));
+    });
+  }
+
+  // Records that the code for `step` was used. False when that step or a
+  // later one was already used, which means the code is being replayed.
+  async recordTotpStep(userId: number, step: number): Promise<boolean> {
+    const updated = await db
+      .update(users)
+      .set({ totpLastStep: step })
+      .where(and(
+        eq(users.id, userId),
+        or(isNull(users.totpLastStep), lt(users.totpLastStep, step)),
+      ))
+      .returning({ id: users.id });
+    return updated.length > 0;
+  }
+
+  async replaceRecoveryCodes(userId: number, codeHashes: string[], executor: DbExecutor = db): Promise<void> {
+    await executor.delete(recoveryCodes).where(eq(recoveryCodes.userId, userId));
+    await executor.insert(recoveryCodes).values(codeHashes.map(codeHash => ({ userId, codeHash })));
+  }
+
+  async consumeRecoveryCode(userId: number, codeHash: string): Promise<boolean> {
+    const used = await db
+      .update(recoveryCodes)
+      .set({ usedAt: new Date() })
+      .where(and(
+        eq(recoveryCodes.userId, userId),
+        eq(recoveryCodes.codeHash, codeHash),
+        isNull(recoveryCodes.usedAt),
+      ))
+      .returning({ id: recoveryCodes.id });
+    return used.length > 0;
+  }
+
+  async countRecoveryCodes(userId: number): Promise<number> {
+    return await db.$count(recoveryCodes, and(eq(recoveryCodes.userId, userId), isNull(recoveryCodes.usedAt)));
+  }
+
+  async createLoginChallenge(userId: number, expiresAt: Date): Promise<number> {
+    const [challenge] = await db
+      .insert(loginChallenges)
+      .values({ userId, expiresAt })
+      .returning({ id: loginChallenges.id });
+    return challenge.id;
+  }
+
+  // Counts an attempt before the code is checked, so parallel guesses can't
+  // get past the limits. "invalid" when the challenge is unknown, expired,
+  // already answered or out of attempts; "throttled" when the user is.
+  async claimLoginChallengeAttempt(challengeId: number, userId: number, limits: LoginAttemptLimits): Promise<LoginAttemptResult> {
+    return await db.transaction(async (tx) => {
+      // Attempts against all of the user's challenges are counted one at a time.
+      await tx.select({ id: users.id }).from(users).where(eq(users.id, userId)).for("update");
+
+      const [challenge] = await tx
+        .select()
+        .from(loginChallenges)
+        .where(and(eq(loginChallenges.id, challengeId), eq(loginChallenges.userId, userId)));
+      if (!challenge || challenge.usedAt || challenge.expiresAt <= new Date() || challenge.attempts >= limits.perChallenge) {
+        return "invalid";
+      }
+
+      const [recent] = await tx
+        .select({ attempts: sql<number>`coalesce(sum(${loginChallenges.attempts}), 0)::int` })
+        .from(loginChallenges)
+        .where(and(
+          eq(loginChallenges.userId, userId),
+          isNull(loginChallenges.usedAt),
+          gte(loginChallenges.createdAt, limits.since),
+        ));
+      if (recent.attempts >= limits.perUser) {
+        return "throttled";
+      }
+
+      await tx
+        .update(loginChallenges)
+        .set({ attempts: sql`${loginChallenges.attempts} + 1` })
+        .where(eq(loginChallenges.id, challengeId));
+      return "allowed";
+    });
+  }
+
+  // Marks the challenge answered so its token can't start another session.
+  // False when it already was, or has expired.
+  async consumeLoginChallenge(challengeId: number): Promise<boolean> {
+    const used = await db
+      .update(loginChallenges)
+      .set({ usedAt: new Date() })
+      .where(and(
+        eq(loginChallenges.id, challengeId),
+        isNull(loginChallenges.usedAt),
+        gt(loginChallenges.expiresAt, new Date()),
+      ))
+      .returning({ id: loginChallenges.id });
+    return used.length > 0;
+  }
+
+  // Sessions
+  async createSession(insertSession: InsertUserSession): Promise<UserSession> {
+    const [session] = await db
+      .insert(userSessions)
+      .values(insertSession)
+      .returning();
+    return session;
+  }
+
+  async getSession(id: number): Promise<UserSession | undefined> {
+    const [session] = await db.select().from(userSessions).where(eq(userSessions.id, id));
+    return session || undefined;
+  }
+
+  async getActiveSessions(userId: number): Promise<PublicUserSession[]> {
+    const { refreshTokenHash, previousRefreshTokenHash, ...publicColumns } = getTableColumns(userSessions);
+    return await db.select(publicColumns).from(userSessions)
+      .where(and(
+        eq(userSessions.userId, userId),
+        isNull(userSessions.revokedAt),
+        gt(userSessions.expiresAt, new Date()),
+      ))
+      .orderBy(desc(userSessions.lastUsedAt));
+  }
+
+  // Swaps the refresh token of a live session for a new one in a single
+  // statement, so two requests can't both spend the same token. Presenting a
+  // token that was already rotated away revokes its session instead.
+  async rotateSessionToken(refreshTokenHash: string, newRefreshTokenHash: string, expiresAt: Date): Promise<UserSession | undefined> {
+    const now = new Date();
+    const [session] = await db
+      .update(userSessions)
+      .set({
+        refreshTokenHash: newRefreshTokenHash,
+        previousRefreshTokenHash: refreshTokenHash,
+        lastUsedAt: now,
+        expiresAt,
+      })
+      .where(and(
+        eq(userSessions.refreshTokenHash, refreshTokenHash),
+        isNull(userSessions.revokedAt),
+        gt(userSessions.expiresAt, now),
+      ))
       .returning();
-    return user;
+    if (session) return session;
+
+    await db
+      .update(userSessions)
+      .set({ revokedAt: now })
+      .where(and(eq(userSessions.previousRefreshTokenHash, refreshTokenHash), isNull(userSessions.revokedAt)));
+    return undefined;
+  }
+
+  async revokeSessionByRefreshToken(refreshTokenHash: string): Promise<void> {
+    await db
+      .update(userSessions)
+      .set({ revokedAt: new Date() })
+      .where(and(eq(userSessions.refreshTokenHash, refreshTokenHash), isNull(userSessions.revokedAt)));
+  }
+
+  // False when the user has no such live session.
+  async revokeSession(userId: number, sessionId: number): Promise<boolean> {
+    const revoked = await db
+      .update(userSessions)
+      .set({ revokedAt: new Date() })
+      .where(and(eq(userSessions.id, sessionId), eq(userSessions.userId, userId), isNull(userSessions.revokedAt)))
+      .returning({ id: userSessions.id });
+    return revoked.length > 0;
+  }
+
+  async revokeUserSessions(userId: number, exceptSessionId?: number): Promise<void> {
+    await db
+      .update(userSessions)
+      .set({ revokedAt: new Date() })
+      .where(and(
+        eq(userSessions.userId, userId),
+        isNull(userSessions.revokedAt),
+        exceptSessionId !== undefined ? ne(userSessions.id, exceptSessionId) : undefined,
+      ));
   }
 
   // Countries
@@ -82,120 +640,760 @@ export class DatabaseStorage implements IStorage {
     return await db.select().from(countries);
   }
 
+  async getCountry(id: number, executor: DbExecutor = db): Promise<Country | undefined> {
+    const [country] = await executor.select().from(countries).where(eq(countries.id, id));
+    return country || undefined;
+  }
+
   // Machines
-  async getMachines(): Promise<Machine[]> {
-    return await db.select().from(machines).orderBy(desc(machines.addedOn));
+  async getMachines(query: MachineListQuery): Promise<Page<Machine>> {
+    const where = query.search
+      ? or(ilike(machines.name, containsPattern(query.search)), ilike(machines.productCode, containsPattern(query.search)))
+      : undefined;
+    const [items, total] = await Promise.all([
+      db.select().from(machines)
+        .where(where)
+        .orderBy(sortBy(machines[query.sort], query.order), asc(machines.id))
+        .limit(query.pageSize)
+        .offset((query.page - 1) * query.pageSize),
+      db.$count(machines, where),
+    ]);
+    return pageOf(items, total, query);
   }
 
-  async getMachine(id: number): Promise<Machine | undefined> {
-    const [machine] = await db.select().from(machines).where(eq(machines.id, id));
+  async getMachineLookup(): Promise<MachineLookup[]> {
+    return await db
+      .select({
+        id: machines.id,
+        name: machines.name,
+        productCode: machines.productCode,
+        serialFormat: machines.serialFormat,
+        checkDigit: machines.checkDigit,
+      })
+      .from(machines)
+      .orderBy(asc(machines.name));
+  }
+
+  async getMachine(id: number, executor: DbExecutor = db): Promise<Machine | undefined> {
+    const [machine] = await executor.select().from(machines).where(eq(machines.id, id));
     return machine || undefined;
   }
 
   async createMachine(machine: InsertMachine): Promise<Machine> {
-    const [newMachine] = await db.insert(machines).values(machine).returning();
-    return newMachine;
+    return await db.transaction(async (tx) => {
+      const [newMachine] = await tx.insert(machines).values(machine).returning();
+      await recordAudit(tx, [{ ...machineSubject(newMachine), actorId: newMachine.addedBy, after: newMachine }]);
+      return newMachine;
+    });
   }
 
-  async updateMachine(id: number, machine: Partial<InsertMachine>): Promise<Machine> {
-    const [updatedMachine] = await db
-      .update(machines)
-      .set(machine)
-      .where(eq(machines.id, id))
-      .returning();
-    return updatedMachine;
+  async updateMachine(id: number, machine: Partial<InsertMachine>, actorId: number): Promise<Machine> {
+    return await db.transaction(async (tx) => {
+      const [before] = await tx.select().from(machines).where(eq(machines.id, id)).for("update");
+      const [updatedMachine] = await tx
+        .update(machines)
+        .set(machine)
+        .where(eq(machines.id, id))
+        .returning();
+      if (updatedMachine) {
+        await recordAudit(tx, [{ ...machineSubject(updatedMachine), actorId, before, after: updatedMachine }]);
+      }
+      return updatedMachine;
+    });
+  }
+
+  async deleteMachine(id: number, actorId: number): Promise<void> {
+    await db.transaction(async (tx) => {
+      const [line] = await tx.select({ id: orderLines.id }).from(orderLines).where(eq(orderLines.machineId, id)).limit(1);
+      const [serial] = await tx.select({ id: serials.id }).from(serials).where(eq(serials.machineId, id)).limit(1);
+      const [reservation] = await tx.select({ id: serialReservations.id }).from(serialReservations)
+        .where(eq(serialReservations.machineId, id)).limit(1);
+      if (line || serial || reservation) {
+        throw new CatalogItemInUseError("Machines");
+      }
+      await tx.delete(machinePanels).where(eq(machinePanels.machineId, id));
+      const [machine] = await tx.delete(machines).where(eq(machines.id, id)).returning();
+      if (machine) {
+        await recordAudit(tx, [{ ...machineSubject(machine), actorId, before: machine }]);
+      }
+    });
+  }
+
+  // Bills of materials
+  async getAllMachinePanels(): Promise<MachinePanel[]> {
+    return await db.select().from(machinePanels);
+  }
+
+  async getMachinePanels(machineId: number, executor: DbExecutor = db): Promise<MachinePanelWithPanel[]> {
+    const rows = await executor
+      .select()
+      .from(machinePanels)
+      .innerJoin(panels, eq(machinePanels.panelId, panels.id))
+      .where(eq(machinePanels.machineId, machineId))
+      .orderBy(asc(panels.panelCode));
+    return rows.map((row) => ({ ...row.machine_panels, panel: row.panels }));
+  }
+
+  // Replaces the machine's bill of materials. Audited as a change to the
+  // machine, listing its panels before and after.
+  async setMachinePanels(machineId: number, items: MachinePanelsInput, actorId: number): Promise<MachinePanelWithPanel[]> {
+    return await db.transaction(async (tx) => {
+      const [machine] = await tx.select().from(machines).where(eq(machines.id, machineId)).for("update");
+      const before = await this.getMachinePanels(machineId, tx);
+      await tx.delete(machinePanels).where(eq(machinePanels.machineId, machineId));
+      if (items.length > 0) {
+        await tx.insert(machinePanels).values(items.map((item) => ({ ...item, machineId })));
+      }
+      const after = await this.getMachinePanels(machineId, tx);
+      await recordAudit(tx, [{
+        ...machineSubject(machine),
+        actorId,
+        before: { panels: before.map(bomItemLabel) },
+        after: { panels: after.map(bomItemLabel) },
+      }]);
+      return after;
+    });
+  }
+
+  // Turns the parent machine panels had before bills of materials into a
+  // standard item of that machine and clears the column, so it runs once per
+  // panel. Not audited, as nothing a machine is built from changes.
+  async moveLegacyPanelParents(): Promise<void> {
+    await db.transaction(async (tx) => {
+      await tx.execute(sql`
+        insert into ${machinePanels} (machine_id, panel_id)
+        select ${panels.legacyParentMachineId}, ${panels.id}
+        from ${panels}
+        where ${panels.legacyParentMachineId} is not null
+        on conflict do nothing
+      `);
+      await tx.update(panels).set({ legacyParentMachineId: null }).where(isNotNull(panels.legacyParentMachineId));
+    });
+  }
+
+  async getAllPanelParts(): Promise<PanelPart[]> {
+    return await db.select().from(panelParts);
   }
 
-  async deleteMachine(id: number): Promise<void> {
-    await db.delete(machines).where(eq(machines.id, id));
+  async getPanelParts(panelId: number, executor: DbExecutor = db): Promise<PanelPartWithPanel[]> {
+    const rows = await executor
+      .select()
+      .from(panelParts)
+      .innerJoin(panels, eq(panelParts.panelId, panels.id))
+      .where(eq(panelParts.parentPanelId, panelId))
+      .orderBy(asc(panels.panelCode));
+    return rows.map((row) => ({ ...row.panel_parts, panel: row.panels }));
+  }
+
+  // Replaces what the part is built from. Throws a PartCycleError if one of
+  // the new parts is, or is built from, the part itself. Audited as a change
+  // to the part, listing its parts before and after.
+  async setPanelParts(panelId: number, items: PanelPartsInput, actorId: number): Promise<PanelPartWithPanel[]> {
+    return await db.transaction(async (tx) => {
+      const [panel] = await tx.select().from(panels).where(eq(panels.id, panelId)).for("update");
+      const structure = await tx.select().from(panelParts).where(ne(panelParts.parentPanelId, panelId));
+      const contains = (outer: number, seen = new Set<number>()): boolean => {
+        if (outer === panelId) return true;
+        if (seen.has(outer)) return false;
+        seen.add(outer);
+        return structure.some((row) => row.parentPanelId === outer && contains(row.panelId, seen));
+      };
+      if (items.some((item) => contains(item.panelId))) {
+        throw new PartCycleError(`${panel.panelCode} can't be built from a part that contains it`);
+      }
+
+      const before = await this.getPanelParts(panelId, tx);
+      await tx.delete(panelParts).where(eq(panelParts.parentPanelId, panelId));
+      if (items.length > 0) {
+        await tx.insert(panelParts).values(items.map((item) => ({ ...item, parentPanelId: panelId })));
+      }
+      const after = await this.getPanelParts(panelId, tx);
+      await recordAudit(tx, [{
+        ...panelSubject(panel),
+        actorId,
+        before: { parts: before.map(bomItemLabel) },
+        after: { parts: after.map(bomItemLabel) },
+      }]);
+      return after;
+    });
   }
 
   // Panels
-  async getPanels(): Promise<Panel[]> {
-    return await db.select().from(panels).orderBy(desc(panels.addedOn));
+  async getPanels(query: PanelListQuery): Promise<Page<Panel>> {
+    const where = and(
+      query.search
+        ? or(ilike(panels.name, containsPattern(query.search)), ilike(panels.panelCode, containsPattern(query.search)))
+        : undefined,
+      query.machineId !== undefined
+        ? inArray(panels.id, db.select({ id: machinePanels.panelId }).from(machinePanels).where(eq(machinePanels.machineId, query.machineId)))
+        : undefined,
+      query.kind ? eq(panels.kind, query.kind) : undefined,
+    );
+    const [items, total] = await Promise.all([
+      db.select().from(panels)
+        .where(where)
+        .orderBy(sortBy(panels[query.sort], query.order), asc(panels.id))
+        .limit(query.pageSize)
+        .offset((query.page - 1) * query.pageSize),
+      db.$count(panels, where),
+    ]);
+    return pageOf(items, total, query);
   }
 
-  async getPanelsByMachine(machineId: number): Promise<Panel[]> {
-    return await db.select().from(panels).where(eq(panels.parentMachineId, machineId));
+  // Codes of every machine and panel whose serials carry a check digit.
+  async getCheckDigitRules(): Promise<CheckDigitRule[]> {
+    const [machineRules, panelRules] = await Promise.all([
+      db.select({ code: machines.productCode, format: machines.serialFormat, checkDigit: machines.checkDigit })
+        .from(machines)
+        .where(sql`${machines.checkDigit} <> 'none'`),
+      db.select({ code: panels.panelCode, format: panels.serialFormat, checkDigit: panels.checkDigit })
+        .from(panels)
+        .where(sql`${panels.checkDigit} <> 'none'`),
+    ]);
+    return [...machineRules, ...panelRules];
   }
 
-  async getPanel(id: number): Promise<Panel | undefined> {
-    const [panel] = await db.select().from(panels).where(eq(panels.id, id));
+  async getPanelLookup(): Promise<PanelLookup[]> {
+    return await db
+      .select({
+        id: panels.id,
+        name: panels.name,
+        panelCode: panels.panelCode,
+        kind: panels.kind,
+        serialised: panels.serialised,
+        serialFormat: panels.serialFormat,
+        checkDigit: panels.checkDigit,
+      })
+      .from(panels)
+      .orderBy(asc(panels.name));
+  }
+
+  async getPanel(id: number, executor: DbExecutor = db): Promise<Panel | undefined> {
+    const [panel] = await executor.select().from(panels).where(eq(panels.id, id));
     return panel || undefined;
   }
 
   async createPanel(panel: InsertPanel): Promise<Panel> {
-    const [newPanel] = await db.insert(panels).values(panel).returning();
-    return newPanel;
+    return await db.transaction(async (tx) => {
+      const [newPanel] = await tx.insert(panels).values(panel).returning();
+      await recordAudit(tx, [{ ...panelSubject(newPanel), actorId: newPanel.addedBy, after: newPanel }]);
+      return newPanel;
+    });
   }
 
-  async updatePanel(id: number, panel: Partial<InsertPanel>): Promise<Panel> {
-    const [updatedPanel] = await db
-      .update(panels)
-      .set(panel)
-      .where(eq(panels.id, id))
-      .returning();
-    return updatedPanel;
+  async updatePanel(id: number, panel: Partial<InsertPanel>, actorId: number): Promise<Panel> {
+    return await db.transaction(async (tx) => {
+      const [before] = await tx.select().from(panels).where(eq(panels.id, id)).for("update");
+      const [updatedPanel] = await tx
+        .update(panels)
+        .set(panel)
+        .where(eq(panels.id, id))
+        .returning();
+      if (updatedPanel) {
+        await recordAudit(tx, [{ ...panelSubject(updatedPanel), actorId, before, after: updatedPanel }]);
+      }
+      return updatedPanel;
+    });
   }
 
-  async deletePanel(id: number): Promise<void> {
-    await db.delete(panels).where(eq(panels.id, id));
+  async deletePanel(id: number, actorId: number, executor: DbExecutor = db): Promise<void> {
+    await executor.transaction(async (tx) => {
+      const [serial] = await tx.select({ id: serials.id }).from(serials).where(eq(serials.panelId, id)).limit(1);
+      const [reservation] = await tx.select({ id: serialReservations.id }).from(serialReservations)
+        .where(eq(serialReservations.panelId, id)).limit(1);
+      // Lines that picked the panel as an option name it only by id.
+      const [line] = await tx.select({ id: orderLines.id }).from(orderLines)
+        .where(sql`${id} = any(${orderLines.optionalPanelIds})`).limit(1);
+      if (serial || reservation || line) {
+        throw new CatalogItemInUseError("Parts");
+      }
+      await tx.delete(machinePanels).where(eq(machinePanels.panelId, id));
+      await tx.delete(panelParts).where(or(eq(panelParts.parentPanelId, id), eq(panelParts.panelId, id)));
+      const [panel] = await tx.delete(panels).where(eq(panels.id, id)).returning();
+      if (panel) {
+        await recordAudit(tx, [{ ...panelSubject(panel), actorId, before: panel }]);
+      }
+    });
   }
 
   // Orders
-  async getOrders(): Promise<Order[]> {
-    return await db.select().from(orders).orderBy(desc(orders.createdAt));
+  async getOrders(query: OrderListQuery): Promise<Page<OrderWithCountry>> {
+    const where = and(
+      query.search
+        ? or(
+          ilike(orders.customerName, containsPattern(query.search)),
+          ilike(orders.quoteNumber, containsPattern(query.search)),
+          ilike(orders.invoiceNumber, containsPattern(query.search)),
+        )
+        : undefined,
+      query.progressStatus ? eq(orders.progressStatus, query.progressStatus) : undefined,
+      query.paymentStatus ? eq(orders.paymentStatus, query.paymentStatus) : undefined,
+      query.countryId !== undefined ? eq(orders.countryId, query.countryId) : undefined,
+      query.machineId !== undefined
+        ? inArray(orders.id, db.select({ id: orderLines.orderId }).from(orderLines).where(eq(orderLines.machineId, query.machineId)))
+        : undefined,
+      ...dateRange(orders.createdAt, query.from, query.to),
+    );
+    const [items, total] = await Promise.all([
+      db.query.orders.findMany({
+        where,
+        with: { country: true, lines: { orderBy: [orderLines.id] } },
+        orderBy: [sortBy(orders[query.sort], query.order), asc(orders.id)],
+        limit: query.pageSize,
+        offset: (query.page - 1) * query.pageSize,
+      }),
+      db.$count(orders, where),
+    ]);
+    return pageOf(items, total, query);
   }
 
-  async getOrder(id: number): Promise<Order | undefined> {
-    const [order] = await db.select().from(orders).where(eq(orders.id, id));
+  async getOrder(id: number, executor: DbExecutor = db): Promise<Order | undefined> {
+    const [order] = await executor.select().from(orders).where(eq(orders.id, id));
     return order || undefined;
   }
 
-  async createOrder(order: InsertOrder): Promise<Order> {
-    const [newOrder] = await db.insert(orders).values(order).returning();
-    return newOrder;
+  async getOrderWithRelations(id: number, executor: DbExecutor = db): Promise<OrderWithRelations | undefined> {
+    return await executor.query.orders.findFirst({
+      where: eq(orders.id, id),
+      with: {
+        country: true,
+        lines: { orderBy: [orderLines.id] },
+        serials: { orderBy: [serials.id] },
+      },
+    });
   }
 
-  async updateOrder(id: number, order: Partial<InsertOrder>): Promise<Order> {
-    const [updatedOrder] = await db
-      .update(orders)
-      .set(order)
-      .where(eq(orders.id, id))
-      .returning();
-    return updatedOrder;
+  // Locks the order row until the transaction ends, so concurrent edits of
+  // its machines can't both issue serials for the same increase.
+  async getOrderForUpdate(id: number, executor: DbExecutor = db): Promise<Order | undefined> {
+    const [order] = await executor.select().from(orders).where(eq(orders.id, id)).for("update");
+    return order || undefined;
+  }
+
+  // The id the next order is likely to get. Only a guess: reading the
+  // identity sequence would use a value up.
+  async estimateNextOrderId(): Promise<number> {
+    const [row] = await db.select({ last: sql<number | null>`max(${orders.id})` }).from(orders);
+    return Number(row?.last ?? 0) + 1;
+  }
+
+  async createOrder(order: InsertOrder, executor: DbExecutor = db): Promise<OrderWithLines> {
+    const { lines, ...orderData } = order;
+    return await executor.transaction(async (tx) => {
+      const [newOrder] = await tx.insert(orders).values(orderData).returning();
+      const newLines = await tx
+        .insert(orderLines)
+        .values(lines.map((line) => ({ ...line, orderId: newOrder.id })))
+        .returning();
+      const machineCodes = await machineCodesFor(tx, newLines);
+      await recordAudit(tx, [
+        { ...orderSubject(newOrder), actorId: newOrder.addedBy, after: newOrder },
+        ...newLines.map((line) => ({ ...orderLineSubject(line, machineCodes), actorId: newOrder.addedBy, after: line })),
+      ]);
+      return { ...newOrder, lines: newLines };
+    });
+  }
+
+  async updateOrder(id: number, order: OrderChanges, actorId: number, executor: DbExecutor = db): Promise<Order> {
+    return await executor.transaction(async (tx) => {
+      const [before] = await tx.select().from(orders).where(eq(orders.id, id)).for("update");
+      const [updatedOrder] = await tx
+        .update(orders)
+        .set(order)
+        .where(eq(orders.id, id))
+        .returning();
+      if (updatedOrder) {
+        await recordAudit(tx, [{ ...orderSubject(updatedOrder), actorId, before, after: updatedOrder }]);
+      }
+      return updatedOrder;
+    });
+  }
+
+  // Removes an order that never had serials issued, e.g. one left over from
+  // before serials were generated. The row is locked first, so none can be
+  // issued for it while it's checked and deleted.
+  async deleteOrder(id: number, actorId: number): Promise<void> {
+    await db.transaction(async (tx) => {
+      await this.getOrderForUpdate(id, tx);
+      const [serial] = await tx.select({ id: serials.id }).from(serials).where(eq(serials.orderId, id)).limit(1);
+      if (serial) {
+        throw new OrderHasSerialsError();
+      }
+      const deletedLines = await tx.delete(orderLines).where(eq(orderLines.orderId, id)).returning();
+      const [order] = await tx.delete(orders).where(eq(orders.id, id)).returning();
+      const machineCodes = await machineCodesFor(tx, deletedLines);
+      await recordAudit(tx, [
+        ...deletedLines.map((line) => ({ ...orderLineSubject(line, machineCodes), actorId, before: line })),
+        ...(order ? [{ ...orderSubject(order), actorId, before: order }] : []),
+      ]);
+    });
   }
 
-  async deleteOrder(id: number): Promise<void> {
-    await db.delete(orders).where(eq(orders.id, id));
+  // A data migration rather than an edit, so it isn't audited.
+  async renameOrderStatuses(renames: Record<string, OrderStatus>): Promise<void> {
+    await db.transaction(async (tx) => {
+      for (const [from, to] of Object.entries(renames)) {
+        await tx
+          .update(orders)
+          .set({ progressStatus: to })
+          .where(sql`${orders.progressStatus} = ${from}`);
+      }
+    });
+  }
+
+  // Copies lines still kept in the old orders.machines jsonb into
+  // order_lines and clears the column, so it runs once per order. Lines for
+  // machines deleted since can't satisfy the foreign key and are dropped.
+  // Not audited, as nothing an order is for changes.
+  async moveLegacyOrderLines(): Promise<void> {
+    await db.transaction(async (tx) => {
+      await tx.execute(sql`
+        insert into ${orderLines} (order_id, machine_id, quantity)
+        select ${orders.id}, (item.line->>'machineId')::integer, (item.line->>'quantity')::integer
+        from ${orders}, jsonb_array_elements(${orders.legacyMachines}) with ordinality as item(line, position)
+        where ${orders.legacyMachines} is not null
+          and (item.line->>'machineId')::integer in (select ${machines.id} from ${machines})
+        order by ${orders.id}, item.position
+      `);
+      await tx.update(orders).set({ legacyMachines: null }).where(isNotNull(orders.legacyMachines));
+    });
+  }
+
+  // Order lines
+  async getOrderLines(orderId: number, executor: DbExecutor = db): Promise<OrderLine[]> {
+    return await executor.select().from(orderLines).where(eq(orderLines.orderId, orderId)).orderBy(asc(orderLines.id));
+  }
+
+  // Makes `lines` the order's lines. Lines carrying the id of one of the
+  // order's lines update it; any other line is added, and existing lines
+  // not mentioned are removed.
+  async setOrderLines(orderId: number, lines: OrderLineInput[], actorId: number, executor: DbExecutor = db): Promise<OrderLine[]> {
+    return await executor.transaction(async (tx) => {
+      const existing = await tx.select().from(orderLines).where(eq(orderLines.orderId, orderId)).for("update");
+      const changes: Array<{ before?: OrderLine; after?: OrderLine }> = [];
+
+      for (const { id, ...line } of lines) {
+        const before = existing.find((l) => l.id === id);
+        if (before) {
+          const [after] = await tx.update(orderLines).set(line).where(eq(orderLines.id, before.id)).returning();
+          changes.push({ before, after });
+        } else {
+          const [after] = await tx.insert(orderLines).values({ ...line, orderId }).returning();
+          changes.push({ after });
+        }
+      }
+
+      const removed = existing.filter((l) => !changes.some((change) => change.before?.id === l.id));
+      if (removed.length > 0) {
+        await tx.delete(orderLines).where(inArray(orderLines.id, removed.map((l) => l.id)));
+        changes.push(...removed.map((before) => ({ before })));
+      }
+
+      const machineCodes = await machineCodesFor(tx, changes.map((change) => (change.after ?? change.before)!));
+      await recordAudit(tx, changes.map(({ before, after }) => ({
+        ...orderLineSubject((after ?? before)!, machineCodes),
+        actorId,
+        before,
+        after,
+      })));
+
+      return await this.getOrderLines(orderId, tx);
+    });
   }
 
   // Serials
-  async getSerials(): Promise<Serial[]> {
-    return await db.select().from(serials).orderBy(desc(serials.addedOn));
+  async getSerials(query: SerialListQuery): Promise<Page<SerialWithRelations>> {
+    const where = and(
+      query.search ? ilike(serials.serialNumber, containsPattern(query.search)) : undefined,
+      query.prefix ? sql`starts_with(${serials.serialNumber}, ${query.prefix})` : undefined,
+      query.status ? eq(serials.status, query.status) : undefined,
+      query.orderId !== undefined ? eq(serials.orderId, query.orderId) : undefined,
+      query.machineId !== undefined ? eq(serials.machineId, query.machineId) : undefined,
+      query.panelId !== undefined ? eq(serials.panelId, query.panelId) : undefined,
+      ...dateRange(serials.addedOn, query.from, query.to),
+    );
+    const [items, total] = await Promise.all([
+      db.query.serials.findMany({
+        where,
+        with: { machine: true, panel: true, order: true },
+        orderBy: [sortBy(serials[query.sort], query.order), asc(serials.id)],
+        limit: query.pageSize,
+        offset: (query.page - 1) * query.pageSize,
+      }),
+      db.$count(serials, where),
+    ]);
+    return pageOf(items, total, query);
   }
 
-  async getSerialsByOrder(orderId: number): Promise<Serial[]> {
-    return await db.select().from(serials).where(eq(serials.orderId, orderId));
+  async getSerialsByOrder(orderId: number, executor: DbExecutor = db): Promise<Serial[]> {
+    return await executor.select().from(serials).where(eq(serials.orderId, orderId));
   }
 
-  async getLastSerialByPrefix(prefix: string): Promise<Serial | undefined> {
-    const [serial] = await db
-      .select()
-      .from(serials)
-      .where(eq(serials.serialNumber, prefix))
-      .orderBy(desc(serials.serialNumber))
-      .limit(1);
+  async getSerial(id: number): Promise<Serial | undefined> {
+    const [serial] = await db.select().from(serials).where(eq(serials.id, id));
     return serial || undefined;
   }
 
+  async getSerialByNumber(serialNumber: string): Promise<Serial | undefined> {
+    const [serial] = await db.select().from(serials).where(eq(serials.serialNumber, serialNumber));
+    return serial || undefined;
+  }
+
+  // Only active serials can change status; returns undefined when the serial
+  // doesn't exist or has already been retired.
+  async updateSerialStatus(
+    id: number,
+    change: { status: Exclude<SerialStatus, "Active">; reason: string; changedBy: number },
+    executor: DbExecutor = db,
+  ): Promise<Serial | undefined> {
+    return await executor.transaction(async (tx) => {
+      const [before] = await tx
+        .select()
+        .from(serials)
+        .where(and(eq(serials.id, id), eq(serials.status, "Active")))
+        .for("update");
+      if (!before) return undefined;
+      const [serial] = await tx
+        .update(serials)
+        .set({
+          status: change.status,
+          statusReason: change.reason,
+          statusChangedBy: change.changedBy,
+          statusChangedAt: new Date(),
+        })
+        .where(eq(serials.id, id))
+        .returning();
+      await recordAudit(tx, [{ ...serialSubject(serial), actorId: change.changedBy, before, after: serial }]);
+      return serial;
+    });
+  }
+
+  // Hangs the serials built into one serial from another instead, e.g. its
+  // replacement.
+  async moveChildSerials(fromSerialId: number, toSerialId: number, actorId: number, executor: DbExecutor = db): Promise<void> {
+    await executor.transaction(async (tx) => {
+      const before = await tx.select().from(serials).where(eq(serials.parentSerialId, fromSerialId)).for("update");
+      if (before.length === 0) return;
+      const after = await tx
+        .update(serials)
+        .set({ parentSerialId: toSerialId })
+        .where(eq(serials.parentSerialId, fromSerialId))
+        .returning();
+      await recordAudit(tx, after.map((serial) => ({
+        ...serialSubject(serial),
+        actorId,
+        before: before.find((b) => b.id === serial.id),
+        after: serial,
+      })));
+    });
+  }
+
+  // Next sequence for serials shaped `${prefix}<digits>`. The suffix is compared
+  // as a number, so BMM1000 ranks above BMM999 once the padding width is exceeded.
+  // The position is cast because an untyped parameter would pick the regex
+  // form of substring.
+  async getNextSerialSequence(prefix: string, executor: DbExecutor = db): Promise<number> {
+    const suffix = sql`substring(${serials.serialNumber} from ${prefix.length + 1}::int)`;
+    const [row] = await executor
+      .select({ last: sql<string | null>`max(cast(${suffix} as bigint))` })
+      .from(serials)
+      .where(and(
+        sql`left(${serials.serialNumber}, ${prefix.length}) = ${prefix}`,
+        sql`${suffix} ~ '^[0-9]+$'`,
+      ));
+    return Number(row?.last ?? 0) + 1;
+  }
+
+  async getSerialSequences(): Promise<SerialSequence[]> {
+    return await db.select().from(serialSequences);
+  }
+
+  async hasSerialSequence(prefix: string): Promise<boolean> {
+    const [sequence] = await db.select().from(serialSequences).where(eq(serialSequences.prefix, prefix)).limit(1);
+    return sequence !== undefined;
+  }
+
+  // Whether any serial or reservation was numbered for the machine or panel.
+  async hasIssuedSerials(item: { machineId?: number; panelId?: number }): Promise<boolean> {
+    const [serial] = await db.select({ id: serials.id }).from(serials)
+      .where(item.machineId !== undefined ? eq(serials.machineId, item.machineId) : eq(serials.panelId, item.panelId!)).limit(1);
+    const [reservation] = await db.select({ id: serialReservations.id }).from(serialReservations)
+      .where(item.machineId !== undefined ? eq(serialReservations.machineId, item.machineId) : eq(serialReservations.panelId, item.panelId!)).limit(1);
+    return serial !== undefined || reservation !== undefined;
+  }
+
+  // Which of the numbers are already on record as a serial or a reservation.
+  async getTakenSerialNumbers(serialNumbers: string[], executor: DbExecutor = db): Promise<string[]> {
+    if (serialNumbers.length === 0) return [];
+    const issued = await executor.select({ serialNumber: serials.serialNumber }).from(serials)
+      .where(inArray(serials.serialNumber, serialNumbers));
+    const reserved = await executor.select({ serialNumber: serialReservations.serialNumber }).from(serialReservations)
+      .where(inArray(serialReservations.serialNumber, serialNumbers));
+    return [...issued, ...reserved].map((row) => row.serialNumber);
+  }
+
+  // Last sequence allocated for a prefix in a counting period, without taking
+  // anything. A never-resetting prefix without a counter yet counts from its
+  // existing serials; periodic counters start from 0.
+  async getSerialSequenceValue(prefix: string, period: string, executor: DbExecutor = db): Promise<number> {
+    const [sequence] = await executor
+      .select()
+      .from(serialSequences)
+      .where(and(eq(serialSequences.prefix, prefix), eq(serialSequences.period, period)));
+    if (sequence) return sequence.lastValue;
+    return period === "" ? (await this.getNextSerialSequence(prefix, executor)) - 1 : 0;
+  }
+
+  // Reserves `count` consecutive sequences for a prefix in a counting period
+  // and returns the first. The update takes a row lock that is held until the
+  // surrounding transaction ends. A never-resetting prefix seen for the first
+  // time is seeded from existing serials; periodic counters start at 1. Only
+  // that first allocation scans the serials, and the upsert still counts on
+  // from a row another transaction created in the meantime.
+  async allocateSerialSequence(prefix: string, period: string, count: number, executor: DbExecutor = db): Promise<number> {
+    const [existing] = await executor
+      .update(serialSequences)
+      .set({
+        lastValue: sql`${serialSequences.lastValue} + ${count}`,
+        updatedAt: new Date(),
+      })
+      .where(and(eq(serialSequences.prefix, prefix), eq(serialSequences.period, period)))
+      .returning();
+    if (existing) return existing.lastValue - count + 1;
+
+    const seed = period === "" ? (await this.getNextSerialSequence(prefix, executor)) - 1 : 0;
+    const [sequence] = await executor
+      .insert(serialSequences)
+      .values({ prefix, period, lastValue: seed + count })
+      .onConflictDoUpdate({
+        target: [serialSequences.prefix, serialSequences.period],
+        set: {
+          lastValue: sql`${serialSequences.lastValue} + ${count}`,
+          updatedAt: new Date(),
+        },
+      })
+      .returning();
+    return sequence.lastValue - count + 1;
+  }
+
   async createSerial(serial: InsertSerial): Promise<Serial> {
-    const [newSerial] = await db.insert(serials).values(serial).returning();
+    const [newSerial] = await this.createMultipleSerials([serial]);
     return newSerial;
   }
 
-  async createMultipleSerials(serialsData: InsertSerial[]): Promise<Serial[]> {
-    return await db.insert(serials).values(serialsData).returning();
+  async createMultipleSerials(serialsData: InsertSerial[], executor: DbExecutor = db): Promise<Serial[]> {
+    if (serialsData.length === 0) return [];
+    return await executor.transaction(async (tx) => {
+      const newSerials = await tx.insert(serials).values(serialsData).returning();
+      await recordAudit(tx, newSerials.map((serial) => ({ ...serialSubject(serial), actorId: serial.addedBy, after: serial })));
+      return newSerials;
+    });
+  }
+
+  // Serial reservations
+  async getSerialReservations(quoteNumber?: string): Promise<SerialReservation[]> {
+    await this.expireSerialReservations();
+    return await db
+      .select()
+      .from(serialReservations)
+      .where(quoteNumber ? eq(serialReservations.quoteNumber, quoteNumber) : undefined)
+      .orderBy(desc(serialReservations.reservedAt));
+  }
+
+  async createSerialReservations(
+    reservations: Array<typeof serialReservations.$inferInsert>,
+    executor: DbExecutor = db,
+  ): Promise<SerialReservation[]> {
+    if (reservations.length === 0) return [];
+    return await executor.insert(serialReservations).values(reservations).returning();
+  }
+
+  async getReservedSerialsForQuote(quoteNumber: string, executor: DbExecutor = db): Promise<SerialReservation[]> {
+    return await executor
+      .select()
+      .from(serialReservations)
+      .where(and(
+        eq(serialReservations.quoteNumber, quoteNumber),
+        eq(serialReservations.status, "Reserved"),
+      ))
+      .orderBy(serialReservations.id)
+      .for("update");
+  }
+
+  // Released numbers for the given items, oldest first. Rows another
+  // transaction is already handing out are skipped rather than waited on.
+  async getReleasedSerialReservations(
+    items: { machineIds: number[]; panelIds: number[] },
+    executor: DbExecutor = db,
+  ): Promise<SerialReservation[]> {
+    return await executor
+      .select()
+      .from(serialReservations)
+      .where(and(
+        eq(serialReservations.status, "Released"),
+        or(
+          inArray(serialReservations.machineId, items.machineIds),
+          inArray(serialReservations.panelId, items.panelIds),
+        ),
+      ))
+      .orderBy(serialReservations.id)
+      .for("update", { skipLocked: true });
+  }
+
+  async updateSerialReservation(
+    id: number,
+    change: { status: ReservationStatus; serialId?: number },
+    executor: DbExecutor = db,
+  ): Promise<void> {
+    await executor.update(serialReservations).set(change).where(eq(serialReservations.id, id));
+  }
+
+  // Settles reservations past their expiry according to their release policy.
+  async expireSerialReservations(executor: DbExecutor = db): Promise<void> {
+    const expired = and(
+      eq(serialReservations.status, "Reserved"),
+      lt(serialReservations.expiresAt, new Date()),
+    );
+    await executor
+      .update(serialReservations)
+      .set({ status: "Released" })
+      .where(and(expired, eq(serialReservations.releasePolicy, "release")));
+    await executor
+      .update(serialReservations)
+      .set({ status: "Voided" })
+      .where(and(expired, eq(serialReservations.releasePolicy, "void")));
+  }
+
+  // Audit trail
+  async getAuditEvents(query: AuditEventListQuery): Promise<Page<AuditEventWithActor>> {
+    const where = and(
+      query.search ? ilike(auditEvents.entityLabel, containsPattern(query.search)) : undefined,
+      query.entityType ? eq(auditEvents.entityType, query.entityType) : undefined,
+      query.entityId !== undefined ? eq(auditEvents.entityId, query.entityId) : undefined,
+      query.action ? eq(auditEvents.action, query.action) : undefined,
+      query.actorId !== undefined ? eq(auditEvents.actorId, query.actorId) : undefined,
+      ...dateRange(auditEvents.createdAt, query.from, query.to),
+    );
+    const [items, total] = await Promise.all([
+      db.query.auditEvents.findMany({
+        where,
+        with: auditActor,
+        orderBy: [sortBy(auditEvents[query.sort], query.order), sortBy(auditEvents.id, query.order)],
+        limit: query.pageSize,
+        offset: (query.page - 1) * query.pageSize,
+      }),
+      db.$count(auditEvents, where),
+    ]);
+    return pageOf(items, total, query);
+  }
+
+  // Events for the order and its serials, newest first.
+  async getOrderHistory(orderId: number): Promise<AuditEventWithActor[]> {
+    return await db.query.auditEvents.findMany({
+      where: eq(auditEvents.orderId, orderId),
+      with: auditActor,
+      orderBy: [desc(auditEvents.createdAt), desc(auditEvents.id)],
+    });
   }
 }
 
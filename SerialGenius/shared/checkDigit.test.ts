@@ -0,0 +1,37 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { appendCheckDigit, computeCheckDigit, hasValidCheckDigit, isSerialNumberValid } from "./checkDigit";
+
+test("computes Luhn check digits", () => {
+  assert.equal(computeCheckDigit("7992739871", "luhn"), "3");
+  // ISIN US0378331005: letters count as their value, A=10 ... Z=35.
+  assert.equal(computeCheckDigit("US037833100", "luhn"), "5");
+});
+
+test("computes Damm check digits", () => {
+  assert.equal(computeCheckDigit("572", "damm"), "4");
+  assert.equal(computeCheckDigit("5724", "damm"), "0");
+});
+
+test("computes ISO 7064 MOD 37-36 check characters", () => {
+  // GRid A1-2425G-ABC1234002-M, separators ignored.
+  assert.equal(computeCheckDigit("A1-2425G-ABC1234002", "mod37_36"), "M");
+});
+
+test("checks the last character of a serial", () => {
+  assert.equal(appendCheckDigit("BMM001", "none"), "BMM001");
+  assert.ok(hasValidCheckDigit(appendCheckDigit("BMM001", "damm"), "damm"));
+  assert.ok(!hasValidCheckDigit("BMM0011", "damm"));
+  assert.ok(hasValidCheckDigit("bmm-001", "none"));
+});
+
+test("judges a serial by the items whose format it matches", () => {
+  const rules = [{ code: "BM", format: "{code}{seq:3}", checkDigit: "luhn" as const }];
+  const serial = appendCheckDigit("BM001", "luhn");
+  assert.ok(isSerialNumberValid(serial, rules));
+  assert.ok(isSerialNumberValid(serial.toLowerCase(), rules));
+  assert.ok(!isSerialNumberValid(`BM001${(Number(serial.at(-1)) + 1) % 10}`, rules));
+  // A BMX serial only contains the code BM; it isn't one of BM's.
+  assert.ok(isSerialNumberValid("BMX001", rules));
+  assert.ok(isSerialNumberValid("XX-BM-001", rules));
+});
@@ -0,0 +1,118 @@
+import { serialNumberPattern } from "./serialFormat";
+
+// Check digits appended to generated serials so a mistyped number can be told
+// apart from one that simply doesn't exist. Shared by the generator, the
+// validation route and the serial search.
+//
+// Separators and case are ignored. Luhn and Damm work on decimal digits, so
+// letters are first expanded to their value (A=10 ... Z=35) the way ISINs do;
+// ISO 7064 MOD 37-36 works on the alphanumerics directly and may yield a letter.
+
+export const CHECK_DIGIT_ALGORITHMS = ["none", "luhn", "mod37_36", "damm"] as const;
+export type CheckDigitAlgorithm = typeof CHECK_DIGIT_ALGORITHMS[number];
+
+export const CHECK_DIGIT_LABELS: Record<CheckDigitAlgorithm, string> = {
+  none: "None",
+  luhn: "Luhn (mod 10)",
+  mod37_36: "ISO 7064 MOD 37-36",
+  damm: "Damm",
+};
+
+const ALPHANUMERIC = "0123456789ABCDEFGHIJKLMNOPQRSTUVWXYZ";
+
+const DAMM_TABLE = [
+  [0, 3, 1, 7, 5, 9, 8, 6, 4, 2],
+  [7, 0, 9, 2, 1, 5, 4, 8, 6, 3],
+  [4, 2, 0, 6, 8, 7, 1, 3, 5, 9],
+  [1, 7, 5, 0, 9, 8, 3, 4, 2, 6],
+  [6, 1, 2, 3, 0, 4, 5, 9, 7, 8],
+  [3, 6, 7, 4, 2, 0, 9, 5, 8, 1],
+  [5, 8, 6, 9, 7, 2, 0, 1, 3, 4],
+  [8, 9, 4, 5, 3, 6, 2, 0, 1, 7],
+  [9, 4, 3, 8, 6, 1, 7, 2, 0, 5],
+  [2, 5, 8, 1, 4, 3, 6, 7, 9, 0],
+];
+
+function normalize(value: string): string {
+  return value.toUpperCase().replace(/[^0-9A-Z]/g, "");
+}
+
+function toDigits(value: string): number[] {
+  return normalize(value)
+    .split("")
+    .flatMap((ch) => ALPHANUMERIC.indexOf(ch).toString().split("").map(Number));
+}
+
+function luhn(payload: string): string {
+  const digits = toDigits(payload);
+  let sum = 0;
+  for (let i = 0; i < digits.length; i++) {
+    // Doubling starts at the rightmost payload digit, since the check digit
+    // will sit to its right.
+    let digit = digits[digits.length - 1 - i];
+    if (i % 2 === 0) {
+      digit *= 2;
+      if (digit > 9) digit -= 9;
+    }
+    sum += digit;
+  }
+  return ((10 - (sum % 10)) % 10).toString();
+}
+
+function damm(payload: string): string {
+  let interim = 0;
+  for (const digit of toDigits(payload)) {
+    interim = DAMM_TABLE[interim][digit];
+  }
+  return interim.toString();
+}
+
+function mod37_36(payload: string): string {
+  let product = 36;
+  for (const ch of normalize(payload)) {
+    let sum = (product + ALPHANUMERIC.indexOf(ch)) % 36;
+    if (sum === 0) sum = 36;
+    product = (sum * 2) % 37;
+  }
+  return ALPHANUMERIC[(37 - product) % 36];
+}
+
+export function computeCheckDigit(payload: string, algorithm: CheckDigitAlgorithm): string {
+  switch (algorithm) {
+    case "luhn": return luhn(payload);
+    case "damm": return damm(payload);
+    case "mod37_36": return mod37_36(payload);
+    default: return "";
+  }
+}
+
+export function appendCheckDigit(serialNumber: string, algorithm: CheckDigitAlgorithm): string {
+  return serialNumber + computeCheckDigit(serialNumber, algorithm);
+}
+
+// True when the last character of the serial is the check digit for the rest.
+export function hasValidCheckDigit(serialNumber: string, algorithm: CheckDigitAlgorithm): boolean {
+  if (algorithm === "none") return true;
+  const serial = serialNumber.trim();
+  if (serial.length < 2) return false;
+  return computeCheckDigit(serial.slice(0, -1), algorithm) === serial.slice(-1).toUpperCase();
+}
+
+export interface CheckDigitRule {
+  code: string;
+  format: string;
+  checkDigit: CheckDigitAlgorithm;
+}
+
+// Decides whether a serial someone typed in could be genuine. The machines and
+// panels whose serial format, rendered for their code, matches it determine
+// which algorithm applies; a serial no check-digit item claims can't be
+// judged and is treated as valid.
+export function isSerialNumberValid(serialNumber: string, rules: CheckDigitRule[]): boolean {
+  const serial = serialNumber.trim().toUpperCase();
+  const candidates = rules.filter(
+    (rule) => rule.checkDigit !== "none" && rule.code && serialNumberPattern(rule.format, rule.code, "[0-9A-Z]").test(serial),
+  );
+  if (candidates.length === 0) return true;
+  return candidates.some((rule) => hasValidCheckDigit(serial, rule.checkDigit));
+}
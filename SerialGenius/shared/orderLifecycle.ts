@@ -0,0 +1,82 @@
+// The stages an order moves through. Orders go forward one step at a time;
+// they can be put on hold while open and cancelled until they ship.
+export const ORDER_STATUSES = [
+  "Quote",
+  "Confirmed",
+  "In Production",
+  "Built",
+  "Shipped",
+  "Closed",
+  "On Hold",
+  "Cancelled",
+] as const;
+export type OrderStatus = typeof ORDER_STATUSES[number];
+
+// A new order is either still a quote or already confirmed.
+export const INITIAL_ORDER_STATUSES = ["Quote", "Confirmed"] as const satisfies readonly OrderStatus[];
+
+// The way forward, without detours. Each status keeps what the ones before it
+// required.
+const PROGRESS_STATUSES: OrderStatus[] = ["Quote", "Confirmed", "In Production", "Built", "Shipped", "Closed"];
+
+const NEXT_STATUSES: Record<OrderStatus, OrderStatus[]> = {
+  "Quote": ["Confirmed", "Cancelled"],
+  "Confirmed": ["In Production", "On Hold", "Cancelled"],
+  "In Production": ["Built", "On Hold", "Cancelled"],
+  "Built": ["Shipped", "On Hold", "Cancelled"],
+  "Shipped": ["Closed"],
+  "Closed": [],
+  // Resuming goes back to the status the order was held at; see nextOrderStatuses.
+  "On Hold": ["Cancelled"],
+  "Cancelled": [],
+};
+
+export interface OrderLifecycleState {
+  progressStatus: OrderStatus;
+  // The status an order on hold returns to.
+  heldFromStatus?: OrderStatus | null;
+}
+
+// Statuses the order may move to from where it is now.
+export function nextOrderStatuses(order: OrderLifecycleState): OrderStatus[] {
+  if (order.progressStatus === "On Hold" && order.heldFromStatus) {
+    return [order.heldFromStatus, ...NEXT_STATUSES["On Hold"]];
+  }
+  return NEXT_STATUSES[order.progressStatus];
+}
+
+// What an order has to have filled in to enter a status.
+export interface OrderStatusFields {
+  confirmationDate?: Date | string | null;
+  invoiceNumber?: string;
+  paymentStatus?: string;
+}
+
+// Reasons the order can't enter `status`, empty when it can.
+export function orderStatusProblems(status: OrderStatus, order: OrderStatusFields): string[] {
+  const problems: string[] = [];
+  if (status === "Confirmed" && !order.confirmationDate) {
+    problems.push("A confirmation date is required to confirm an order");
+  }
+  if (status === "Shipped" && !order.invoiceNumber?.trim()) {
+    problems.push("An invoice number is required to ship an order");
+  }
+  if (status === "Closed" && order.paymentStatus !== "Paid") {
+    problems.push("An order can only be closed once it is paid");
+  }
+  return problems;
+}
+
+// Reasons the order doesn't have what the statuses it has passed through
+// required, empty when it does. An order on hold is judged by the status it
+// was held at; how far a cancelled order got isn't known.
+export function orderStandingProblems(order: OrderLifecycleState & OrderStatusFields): string[] {
+  const reached = order.progressStatus === "On Hold" ? order.heldFromStatus : order.progressStatus;
+  const passed = reached ? PROGRESS_STATUSES.slice(0, PROGRESS_STATUSES.indexOf(reached) + 1) : [];
+  return passed.flatMap((status) => orderStatusProblems(status, order));
+}
+
+// Closed and cancelled orders are over, so what was ordered can't change.
+export function isFinalOrderStatus(status: OrderStatus): boolean {
+  return status === "Closed" || status === "Cancelled";
+}
@@ -0,0 +1,27 @@
+// Password policy for local accounts. The server enforces it when a password
+// is stored; forms use the same rules so people see problems before saving.
+
+import { z } from "zod";
+
+export const PASSWORD_MIN_LENGTH = 10;
+
+// Everything wrong with the password; empty when it meets the policy.
+export function passwordPolicyProblems(password: string): string[] {
+  const problems: string[] = [];
+  if (password.length < PASSWORD_MIN_LENGTH) {
+    problems.push(`Password must be at least ${PASSWORD_MIN_LENGTH} characters`);
+  }
+  if (!/[A-Za-z]/.test(password)) {
+    problems.push("Password must contain a letter");
+  }
+  if (!/[0-9]/.test(password)) {
+    problems.push("Password must contain a number");
+  }
+  return problems;
+}
+
+export const passwordSchema = z.string().superRefine((password, ctx) => {
+  for (const message of passwordPolicyProblems(password)) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message });
+  }
+});
@@ -1,8 +1,17 @@
 import { sql } from "drizzle-orm";
-import { pgTable, text, varchar, integer, timestamp, jsonb } from "drizzle-orm/pg-core";
+import { pgTable, text, varchar, integer, boolean, timestamp, jsonb, numeric, primaryKey, type AnyPgColumn } from "drizzle-orm/pg-core";
 import { relations } from "drizzle-orm";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
+import {
+  DEFAULT_SERIAL_FORMAT,
+  SEQUENCE_RESET_POLICIES,
+  validateSerialFormat,
+  type SequenceResetPolicy,
+} from "./serialFormat";
+import { CHECK_DIGIT_ALGORITHMS, type CheckDigitAlgorithm } from "./checkDigit";
+import { INITIAL_ORDER_STATUSES, ORDER_STATUSES, type OrderStatus } from "./orderLifecycle";
+import { passwordSchema } from "./password";
 
 export const countries = pgTable("countries", {
   id: integer("id").primaryKey().generatedAlwaysAsIdentity(),
@@ -10,33 +19,164 @@ export const countries = pgTable("countries", {
   code: text("code").notNull().unique(),
 });
 
+export const PERMISSIONS = [
+  "catalog.edit",
+  "orders.create",
+  "orders.edit",
+  "orders.edit_payment",
+  "orders.delete",
+  "serials.reserve",
+  "serials.void",
+  "users.manage",
+  "audit.view",
+] as const;
+export type Permission = typeof PERMISSIONS[number];
+
+// Admin is built in: it always has every permission and can't be changed or
+// removed, so there is always someone who can manage users.
+export const ADMIN_ROLE = "Admin";
+
+export const roles = pgTable("roles", {
+  name: text("name").primaryKey(),
+  description: text("description").notNull().default(""),
+  permissions: jsonb("permissions").$type<Permission[]>().notNull(),
+  // Users with this role must set up two-factor authentication before they
+  // can do anything else.
+  requireTwoFactor: boolean("require_two_factor").notNull().default(false),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
 export const users = pgTable("users", {
   id: integer("id").primaryKey().generatedAlwaysAsIdentity(),
   username: text("username").notNull().unique(),
   email: text("email").notNull().unique(),
   phone: text("phone"),
   password: text("password").notNull(),
-  role: text("role").notNull().$type<"Admin" | "Tech">(),
+  // Name of a row in roles.
+  role: text("role").notNull(),
+  // Users are deactivated rather than deleted, since catalog items, orders
+  // and serials keep referencing who added them.
+  isActive: boolean("is_active").notNull().default(true),
+  // Set by an admin; the user can do nothing else until they pick a new password.
+  mustChangePassword: boolean("must_change_password").notNull().default(false),
+  // Base32 TOTP secret. Set while enrolling; two-factor is only on once
+  // totpEnabledAt is set, i.e. the user has proved their app has the secret.
+  totpSecret: text("totp_secret"),
+  totpEnabledAt: timestamp("totp_enabled_at"),
+  // Time step of the last code accepted, so a code can't be used twice.
+  totpLastStep: integer("totp_last_step"),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// Single-use codes for signing in without the authenticator app. Only hashes
+// are stored; the codes are shown once when generated.
+export const recoveryCodes = pgTable("recovery_codes", {
+  id: integer("id").primaryKey().generatedAlwaysAsIdentity(),
+  userId: integer("user_id").notNull().references(() => users.id),
+  codeHash: text("code_hash").notNull(),
+  usedAt: timestamp("used_at"),
+});
+
+// One row per sign-in. Access tokens name their session, so revoking it signs
+// that device out at its next request. The refresh token is rotated on every
+// use and only its hash is kept.
+export const userSessions = pgTable("user_sessions", {
+  id: integer("id").primaryKey().generatedAlwaysAsIdentity(),
+  userId: integer("user_id").notNull().references(() => users.id),
+  refreshTokenHash: text("refresh_token_hash").notNull().unique(),
+  // The token the current one replaced. If it is ever presented again it was
+  // copied, and the session is revoked.
+  previousRefreshTokenHash: text("previous_refresh_token_hash"),
+  userAgent: text("user_agent"),
+  ipAddress: text("ip_address"),
+  createdAt: timestamp("created_at").defaultNow(),
+  lastUsedAt: timestamp("last_used_at").defaultNow(),
+  expiresAt: timestamp("expires_at").notNull(),
+  revokedAt: timestamp("revoked_at"),
+});
+
+// One-time tokens for self-service password reset. Only a hash is stored, so
+// the table alone can't be used to take over an account.
+export const passwordResetTokens = pgTable("password_reset_tokens", {
+  id: integer("id").primaryKey().generatedAlwaysAsIdentity(),
+  userId: integer("user_id").notNull().references(() => users.id),
+  tokenHash: text("token_hash").notNull().unique(),
+  expiresAt: timestamp("expires_at").notNull(),
+  usedAt: timestamp("used_at"),
   createdAt: timestamp("created_at").defaultNow(),
 });
 
+// Issued when a password is right but a two-factor code is still needed. The
+// challenge token names its row, which counts the codes tried against it and
+// is marked used once one is accepted.
+export const loginChallenges = pgTable("login_challenges", {
+  id: integer("id").primaryKey().generatedAlwaysAsIdentity(),
+  userId: integer("user_id").notNull().references(() => users.id),
+  attempts: integer("attempts").notNull().default(0),
+  expiresAt: timestamp("expires_at").notNull(),
+  usedAt: timestamp("used_at"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
 export const machines = pgTable("machines", {
   id: integer("id").primaryKey().generatedAlwaysAsIdentity(),
   name: text("name").notNull(),
   productCode: text("product_code").notNull().unique(),
+  serialFormat: text("serial_format").notNull().default(DEFAULT_SERIAL_FORMAT),
+  sequenceReset: text("sequence_reset").notNull().default("never").$type<SequenceResetPolicy>(),
+  checkDigit: text("check_digit").notNull().default("none").$type<CheckDigitAlgorithm>(),
   addedBy: integer("added_by").notNull().references(() => users.id),
   addedOn: timestamp("added_on").defaultNow(),
 });
 
+// What a part is within a machine. Assemblies hold panels and components,
+// panels hold components, but any part can be built from any other.
+export const PART_KINDS = ["assembly", "panel", "component"] as const;
+export type PartKind = typeof PART_KINDS[number];
+
+// Every part below machine level: assemblies, panels and components. The
+// table keeps the name from when it only held panels.
 export const panels = pgTable("panels", {
   id: integer("id").primaryKey().generatedAlwaysAsIdentity(),
   name: text("name").notNull(),
   panelCode: text("panel_code").notNull().unique(),
-  parentMachineId: integer("parent_machine_id").notNull().references(() => machines.id),
+  kind: text("kind").notNull().default("panel").$type<PartKind>(),
+  // Parts that aren't serialised get no serial of their own; serials of
+  // the parts inside them hang from the nearest serialised part above.
+  serialised: boolean("serialised").notNull().default(true),
+  serialFormat: text("serial_format").notNull().default(DEFAULT_SERIAL_FORMAT),
+  sequenceReset: text("sequence_reset").notNull().default("never").$type<SequenceResetPolicy>(),
+  checkDigit: text("check_digit").notNull().default("none").$type<CheckDigitAlgorithm>(),
+  // Superseded by machine_panels. Panels from before the bill of materials
+  // are added to their machine's on startup and this cleared; the column can
+  // go once every deployment has.
+  legacyParentMachineId: integer("parent_machine_id").references(() => machines.id),
   addedBy: integer("added_by").notNull().references(() => users.id),
   addedOn: timestamp("added_on").defaultNow(),
 });
 
+// Bill of materials: the panels that go into each unit of a machine.
+// Standard panels come with every unit, optional ones only when the order
+// line picks them.
+export const machinePanels = pgTable("machine_panels", {
+  machineId: integer("machine_id").notNull().references(() => machines.id),
+  panelId: integer("panel_id").notNull().references(() => panels.id),
+  quantity: integer("quantity").notNull().default(1),
+  optional: boolean("optional").notNull().default(false),
+}, (table) => [
+  primaryKey({ columns: [table.machineId, table.panelId] }),
+]);
+
+// The parts each part is built from, making the catalog a tree below each
+// machine. Writes refuse anything that would make a part contain itself.
+export const panelParts = pgTable("panel_parts", {
+  parentPanelId: integer("parent_panel_id").notNull().references(() => panels.id),
+  panelId: integer("panel_id").notNull().references(() => panels.id),
+  quantity: integer("quantity").notNull().default(1),
+}, (table) => [
+  primaryKey({ columns: [table.parentPanelId, table.panelId] }),
+]);
+
 export const orders = pgTable("orders", {
   id: integer("id").primaryKey().generatedAlwaysAsIdentity(),
   customerName: text("customer_name").notNull(),
@@ -45,25 +185,125 @@ export const orders = pgTable("orders", {
   countryId: integer("country_id").notNull().references(() => countries.id),
   quoteNumber: text("quote_number").notNull(),
   invoiceNumber: text("invoice_number").notNull(),
-  confirmationDate: timestamp("confirmation_date").defaultNow(),
+  // Set when the order is confirmed; quotes don't have one.
+  confirmationDate: timestamp("confirmation_date"),
   dueDate: timestamp("due_date").notNull(),
-  progressStatus: text("progress_status").notNull().$type<"Pending" | "In Progress" | "Completed" | "Confirmed">(),
+  // Moves along the lifecycle in shared/orderLifecycle.ts.
+  progressStatus: text("progress_status").notNull().$type<OrderStatus>(),
+  // While on hold, the status the order resumes at.
+  heldFromStatus: text("held_from_status").$type<OrderStatus>(),
   paymentStatus: text("payment_status").notNull().$type<"Pending" | "Partial" | "Paid">(),
-  machines: jsonb("machines").$type<Array<{ machineId: number; quantity: number }>>().notNull(),
+  // Superseded by order_lines. Orders from before that table are moved over
+  // and cleared on startup; the column can go once every deployment has.
+  legacyMachines: jsonb("machines").$type<Array<{ machineId: number; quantity: number }>>(),
   addedBy: integer("added_by").notNull().references(() => users.id),
   createdAt: timestamp("created_at").defaultNow(),
 });
 
+// What an order is for: a quantity of one machine, with its price and options.
+export const orderLines = pgTable("order_lines", {
+  id: integer("id").primaryKey().generatedAlwaysAsIdentity(),
+  orderId: integer("order_id").notNull().references(() => orders.id),
+  machineId: integer("machine_id").notNull().references(() => machines.id),
+  quantity: integer("quantity").notNull(),
+  // Per unit; empty until the line is priced.
+  unitPrice: numeric("unit_price", { precision: 12, scale: 2 }),
+  notes: text("notes").notNull().default(""),
+  // Options the customer picked for this line, e.g. { "Voltage": "480V" }.
+  configuration: jsonb("configuration").$type<Record<string, string>>().notNull().default({}),
+  // The machine's optional panels this line includes.
+  optionalPanelIds: integer("optional_panel_ids").array().notNull().default(sql`'{}'::integer[]`),
+});
+
+export const SERIAL_STATUSES = ["Active", "Voided", "Scrapped", "Replaced"] as const;
+export type SerialStatus = typeof SERIAL_STATUSES[number];
+
+// Serials are never deleted. Retiring one records who did it and why, and a
+// replacement points back at the serial it replaces.
 export const serials = pgTable("serials", {
   id: integer("id").primaryKey().generatedAlwaysAsIdentity(),
   orderId: integer("order_id").notNull().references(() => orders.id),
   machineId: integer("machine_id").references(() => machines.id),
   panelId: integer("panel_id").references(() => panels.id),
   serialNumber: text("serial_number").notNull().unique(),
+  status: text("status").notNull().default("Active").$type<SerialStatus>(),
+  statusReason: text("status_reason"),
+  statusChangedBy: integer("status_changed_by").references(() => users.id),
+  statusChangedAt: timestamp("status_changed_at"),
+  replacesSerialId: integer("replaces_serial_id").references((): AnyPgColumn => serials.id),
+  // The serial of the unit or part this one is built into; missing for
+  // machines and for serials issued before parts were linked.
+  parentSerialId: integer("parent_serial_id").references((): AnyPgColumn => serials.id),
   addedBy: integer("added_by").notNull().references(() => users.id),
   addedOn: timestamp("added_on").defaultNow(),
 });
 
+// Highest sequence handed out per serial prefix and counting period ("" when
+// the sequence never resets). The serial generator bumps these rows inside the
+// order transaction, so concurrent orders queue on the row lock instead of
+// reading the same "last serial".
+export const serialSequences = pgTable("serial_sequences", {
+  prefix: text("prefix").notNull(),
+  period: text("period").notNull().default(""),
+  lastValue: integer("last_value").notNull(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => [
+  primaryKey({ columns: [table.prefix, table.period] }),
+]);
+
+export const RESERVATION_STATUSES = ["Reserved", "Converted", "Released", "Voided"] as const;
+export type ReservationStatus = typeof RESERVATION_STATUSES[number];
+export const RESERVATION_RELEASE_POLICIES = ["release", "void"] as const;
+export type ReservationReleasePolicy = typeof RESERVATION_RELEASE_POLICIES[number];
+
+// Serial numbers promised against a quote before its order exists. They are
+// drawn from the normal sequences when reserved and become real serials when
+// an order with the same quote number is created. Reservations the order
+// doesn't use, or that expire, are either released back to the pool for the
+// next serial of the same item or voided for good, per releasePolicy.
+export const serialReservations = pgTable("serial_reservations", {
+  id: integer("id").primaryKey().generatedAlwaysAsIdentity(),
+  quoteNumber: text("quote_number").notNull(),
+  machineId: integer("machine_id").references(() => machines.id),
+  panelId: integer("panel_id").references(() => panels.id),
+  serialNumber: text("serial_number").notNull().unique(),
+  // The sequence the number was rendered from, so a released number is only
+  // reused where it would render the same. Unknown for older reservations.
+  sequence: integer("sequence"),
+  status: text("status").notNull().default("Reserved").$type<ReservationStatus>(),
+  releasePolicy: text("release_policy").notNull().default("release").$type<ReservationReleasePolicy>(),
+  expiresAt: timestamp("expires_at").notNull(),
+  serialId: integer("serial_id").references(() => serials.id),
+  reservedBy: integer("reserved_by").notNull().references(() => users.id),
+  reservedAt: timestamp("reserved_at").defaultNow(),
+});
+
+export const AUDIT_ENTITY_TYPES = ["machine", "panel", "order", "order_line", "serial", "user"] as const;
+export type AuditEntityType = typeof AUDIT_ENTITY_TYPES[number];
+export const AUDIT_ACTIONS = ["create", "update", "delete"] as const;
+export type AuditAction = typeof AUDIT_ACTIONS[number];
+// Changed fields with their old and new values. Creations have every field
+// coming from null, deletions every field going to null.
+export type AuditChanges = Record<string, { from: unknown; to: unknown }>;
+
+// Every change the storage layer makes to machines, panels, orders, order
+// lines, serials and users. Rows outlive what they describe, so nothing here references the
+// entity itself and entityLabel keeps a readable name for it.
+export const auditEvents = pgTable("audit_events", {
+  id: integer("id").primaryKey().generatedAlwaysAsIdentity(),
+  entityType: text("entity_type").notNull().$type<AuditEntityType>(),
+  entityId: integer("entity_id").notNull(),
+  entityLabel: text("entity_label").notNull(),
+  // The order an order, line or serial event belongs to, for the order's history.
+  orderId: integer("order_id"),
+  action: text("action").notNull().$type<AuditAction>(),
+  changes: jsonb("changes").$type<AuditChanges>().notNull(),
+  // Null for changes nobody made directly, e.g. a user first signing in
+  // through Supabase.
+  actorId: integer("actor_id").references(() => users.id),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
 // Relations
 export const countriesRelations = relations(countries, ({ many }) => ({
   orders: many(orders),
@@ -78,30 +318,85 @@ export const usersRelations = relations(users, ({ many }) => ({
 
 export const machinesRelations = relations(machines, ({ one, many }) => ({
   addedBy: one(users, { fields: [machines.addedBy], references: [users.id] }),
-  panels: many(panels),
+  panels: many(machinePanels),
+  orderLines: many(orderLines),
   serials: many(serials),
 }));
 
 export const panelsRelations = relations(panels, ({ one, many }) => ({
-  parentMachine: one(machines, { fields: [panels.parentMachineId], references: [machines.id] }),
   addedBy: one(users, { fields: [panels.addedBy], references: [users.id] }),
+  machines: many(machinePanels),
+  parts: many(panelParts, { relationName: "parentPart" }),
+  usedIn: many(panelParts, { relationName: "part" }),
   serials: many(serials),
 }));
 
+export const machinePanelsRelations = relations(machinePanels, ({ one }) => ({
+  machine: one(machines, { fields: [machinePanels.machineId], references: [machines.id] }),
+  panel: one(panels, { fields: [machinePanels.panelId], references: [panels.id] }),
+}));
+
+export const panelPartsRelations = relations(panelParts, ({ one }) => ({
+  parent: one(panels, { fields: [panelParts.parentPanelId], references: [panels.id], relationName: "parentPart" }),
+  panel: one(panels, { fields: [panelParts.panelId], references: [panels.id], relationName: "part" }),
+}));
+
 export const ordersRelations = relations(orders, ({ one, many }) => ({
   country: one(countries, { fields: [orders.countryId], references: [countries.id] }),
   addedBy: one(users, { fields: [orders.addedBy], references: [users.id] }),
+  lines: many(orderLines),
   serials: many(serials),
 }));
 
-export const serialsRelations = relations(serials, ({ one }) => ({
+export const orderLinesRelations = relations(orderLines, ({ one }) => ({
+  order: one(orders, { fields: [orderLines.orderId], references: [orders.id] }),
+  machine: one(machines, { fields: [orderLines.machineId], references: [machines.id] }),
+}));
+
+export const auditEventsRelations = relations(auditEvents, ({ one }) => ({
+  actor: one(users, { fields: [auditEvents.actorId], references: [users.id] }),
+}));
+
+export const serialsRelations = relations(serials, ({ one, many }) => ({
   order: one(orders, { fields: [serials.orderId], references: [orders.id] }),
   machine: one(machines, { fields: [serials.machineId], references: [machines.id] }),
   panel: one(panels, { fields: [serials.panelId], references: [panels.id] }),
   addedBy: one(users, { fields: [serials.addedBy], references: [users.id] }),
+  statusChangedBy: one(users, { fields: [serials.statusChangedBy], references: [users.id] }),
+  replaces: one(serials, { fields: [serials.replacesSerialId], references: [serials.id], relationName: "replacement" }),
+  parent: one(serials, { fields: [serials.parentSerialId], references: [serials.id], relationName: "serialTree" }),
+  children: many(serials, { relationName: "serialTree" }),
 }));
 
 // Insert schemas
+export const serialFormatSchema = z.string().trim().superRefine((format, ctx) => {
+  const error = validateSerialFormat(format);
+  if (error) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: error });
+  }
+});
+
+export const sequenceResetSchema = z.enum(SEQUENCE_RESET_POLICIES);
+
+export const checkDigitSchema = z.enum(CHECK_DIGIT_ALGORITHMS);
+
+// The format and reset policy have to agree (a resetting counter needs the
+// period in the serial), so they are also checked together.
+export function refineSerialConfig(
+  config: { serialFormat?: string; sequenceReset?: SequenceResetPolicy },
+  ctx: z.RefinementCtx,
+) {
+  const error = validateSerialFormat(config.serialFormat || DEFAULT_SERIAL_FORMAT, config.sequenceReset);
+  if (error) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["serialFormat"], message: error });
+  }
+}
+
+export const serialConfigSchema = z.object({
+  serialFormat: serialFormatSchema.optional(),
+  sequenceReset: sequenceResetSchema.optional(),
+}).superRefine(refineSerialConfig);
+
 export const insertCountrySchema = z.object({
   name: z.string(),
   code: z.string(),
@@ -112,57 +407,353 @@ export const insertUserSchema = z.object({
   email: z.string().email(),
   phone: z.string().optional(),
   password: z.string(),
-  role: z.enum(["Admin", "Tech"]),
+  role: z.string().trim().min(1, "Role is required"),
+  mustChangePassword: z.boolean().optional(),
+});
+
+export const insertRoleSchema = z.object({
+  name: z.string().trim().min(1, "Role name is required"),
+  description: z.string().trim().default(""),
+  permissions: z.array(z.enum(PERMISSIONS)),
+  requireTwoFactor: z.boolean().default(false),
+});
+
+export const updateRoleSchema = insertRoleSchema.omit({ name: true }).partial();
+
+export const updateUserSchema = insertUserSchema.pick({
+  email: true,
+  phone: true,
+  role: true,
+}).extend({
+  isActive: z.boolean(),
+  mustChangePassword: z.boolean(),
+}).partial();
+
+export const changePasswordSchema = z.object({
+  currentPassword: z.string().min(1, "Current password is required"),
+  newPassword: passwordSchema,
+});
+
+export const passwordResetRequestSchema = z.object({
+  login: z.string().trim().min(1, "Username or email is required"),
+});
+
+export const passwordResetSchema = z.object({
+  token: z.string().min(1),
+  password: passwordSchema,
+});
+
+export const twoFactorCodeSchema = z.object({
+  code: z.string().trim().min(1, "Code is required"),
+});
+
+export const twoFactorLoginSchema = twoFactorCodeSchema.extend({
+  challengeToken: z.string().min(1),
+});
+
+export const refreshSessionSchema = z.object({
+  refreshToken: z.string().min(1),
+});
+
+export const loginSchema = z.object({
+  username: z.string().trim().min(1, "Username is required"),
+  password: z.string().min(1, "Password is required"),
 });
 
 export const insertMachineSchema = z.object({
   name: z.string(),
   productCode: z.string(),
+  serialFormat: serialFormatSchema.optional(),
+  sequenceReset: sequenceResetSchema.optional(),
+  checkDigit: checkDigitSchema.optional(),
   addedBy: z.number(),
 });
 
 export const insertPanelSchema = z.object({
   name: z.string(),
   panelCode: z.string(),
-  parentMachineId: z.number(),
+  kind: z.enum(PART_KINDS).optional(),
+  serialised: z.boolean().optional(),
+  serialFormat: serialFormatSchema.optional(),
+  sequenceReset: sequenceResetSchema.optional(),
+  checkDigit: checkDigitSchema.optional(),
   addedBy: z.number(),
 });
 
+// A machine's whole bill of materials, replacing what it had.
+export const machinePanelsSchema = z.array(z.object({
+  panelId: z.number(),
+  quantity: z.number().int().min(1),
+  optional: z.boolean().default(false),
+})).refine(items => new Set(items.map(item => item.panelId)).size === items.length, "Each panel can only be listed once");
+
+// Everything a part is built from, replacing what it had.
+export const panelPartsSchema = z.array(z.object({
+  panelId: z.number(),
+  quantity: z.number().int().min(1),
+})).refine(items => new Set(items.map(item => item.panelId)).size === items.length, "Each part can only be listed once");
+
+export const orderLineSchema = z.object({
+  // Set when an order update keeps a line the order already has.
+  id: z.number().optional(),
+  machineId: z.number(),
+  quantity: z.number().int().min(1),
+  unitPrice: z.number().nonnegative().transform(price => price.toFixed(2)).nullable().optional(),
+  notes: z.string().trim().default(""),
+  configuration: z.record(z.string()).default({}),
+  optionalPanelIds: z.array(z.number()).default([]),
+});
+
+// Dates arrive as JSON strings; a string that isn't a date is a validation
+// error rather than an Invalid Date.
+const dateSchema = z.coerce.date().refine(date => !Number.isNaN(date.getTime()), "Invalid date");
+
 export const insertOrderSchema = z.object({
   customerName: z.string(),
   city: z.string(),
   state: z.string(),
   countryId: z.number(),
   quoteNumber: z.string(),
-  invoiceNumber: z.string(),
-  dueDate: z.date().or(z.string().transform(str => new Date(str))),
-  progressStatus: z.enum(["Pending", "In Progress", "Completed", "Confirmed"]),
+  // Not known yet for most quotes; required before the order ships.
+  invoiceNumber: z.string().default(""),
+  confirmationDate: dateSchema.nullable().optional(),
+  dueDate: dateSchema,
+  progressStatus: z.enum(INITIAL_ORDER_STATUSES).default("Quote"),
   paymentStatus: z.enum(["Pending", "Partial", "Paid"]),
-  machines: z.array(z.object({
-    machineId: z.number(),
-    quantity: z.number(),
-  })),
+  lines: z.array(orderLineSchema.omit({ id: true })).min(1),
   addedBy: z.number(),
 });
 
+// What the serial preview needs to know about an order that hasn't been
+// filled in yet.
+export const orderSerialPreviewSchema = insertOrderSchema.pick({
+  countryId: true,
+  quoteNumber: true,
+  lines: true,
+}).extend({ quoteNumber: z.string().default("") });
+
 export const insertSerialSchema = z.object({
   orderId: z.number(),
   machineId: z.number().optional(),
   panelId: z.number().optional(),
   serialNumber: z.string(),
+  replacesSerialId: z.number().optional(),
+  parentSerialId: z.number().optional(),
   addedBy: z.number(),
 });
 
+export const insertSerialReservationSchema = z.object({
+  quoteNumber: z.string().trim().min(1),
+  machineId: z.number().optional(),
+  panelId: z.number().optional(),
+  quantity: z.number().int().min(1).max(1000),
+  countryId: z.number().optional(),
+  expiresAt: dateSchema,
+  releasePolicy: z.enum(RESERVATION_RELEASE_POLICIES).default("release"),
+  reservedBy: z.number(),
+}).refine(data => !!data.machineId !== !!data.panelId, {
+  message: "Reserve either a machine or a panel",
+  path: ["machineId"],
+});
+
+export const serialStatusChangeSchema = z.object({
+  reason: z.string().trim().min(1, "A reason is required"),
+});
+
+// What to do with a serial that a lowered machine quantity leaves without a unit.
+export const serialDecisionSchema = serialStatusChangeSchema.extend({
+  serialId: z.number(),
+  action: z.enum(["void", "scrap"]),
+});
+
+// The status only changes through orderTransitionSchema.
+export const updateOrderSchema = insertOrderSchema.omit({ addedBy: true, progressStatus: true }).partial().extend({
+  // Replaces the order's lines: lines with an id are kept and updated, the
+  // rest are added, and lines left out are removed.
+  lines: z.array(orderLineSchema).min(1).optional(),
+  serialDecisions: z.array(serialDecisionSchema).default([]),
+});
+
+// Moves an order to another status, filling in what that status requires.
+export const orderTransitionSchema = z.object({
+  status: z.enum(ORDER_STATUSES),
+  confirmationDate: insertOrderSchema.shape.confirmationDate,
+  invoiceNumber: z.string().trim().optional(),
+});
+
+// List queries. Parameters arrive as query strings, hence the coercion.
+export const MAX_PAGE_SIZE = 500;
+
+const listQueryFields = {
+  page: z.coerce.number().int().min(1).default(1),
+  pageSize: z.coerce.number().int().min(1).max(MAX_PAGE_SIZE).default(25),
+  order: z.enum(["asc", "desc"]).default("desc"),
+  search: z.string().trim().optional(),
+};
+
+const dateRangeFields = {
+  from: z.coerce.date().optional(),
+  to: z.coerce.date().optional(),
+};
+
+export const userListQuerySchema = z.object({
+  ...listQueryFields,
+  sort: z.enum(["username", "createdAt"]).default("username"),
+  order: z.enum(["asc", "desc"]).default("asc"),
+  role: insertUserSchema.shape.role.optional(),
+  isActive: z.enum(["true", "false"]).transform(value => value === "true").optional(),
+});
+
+export const machineListQuerySchema = z.object({
+  ...listQueryFields,
+  sort: z.enum(["name", "productCode", "addedOn"]).default("addedOn"),
+});
+
+export const panelListQuerySchema = z.object({
+  ...listQueryFields,
+  sort: z.enum(["name", "panelCode", "addedOn"]).default("addedOn"),
+  // Panels in this machine's bill of materials.
+  machineId: z.coerce.number().int().optional(),
+  kind: z.enum(PART_KINDS).optional(),
+});
+
+export const orderListQuerySchema = z.object({
+  ...listQueryFields,
+  ...dateRangeFields,
+  sort: z.enum(["createdAt", "dueDate", "customerName"]).default("createdAt"),
+  progressStatus: z.enum(ORDER_STATUSES).optional(),
+  paymentStatus: insertOrderSchema.shape.paymentStatus.optional(),
+  countryId: z.coerce.number().int().optional(),
+  machineId: z.coerce.number().int().optional(),
+});
+
+export const serialListQuerySchema = z.object({
+  ...listQueryFields,
+  ...dateRangeFields,
+  sort: z.enum(["addedOn", "serialNumber"]).default("addedOn"),
+  status: z.enum(SERIAL_STATUSES).optional(),
+  orderId: z.coerce.number().int().optional(),
+  machineId: z.coerce.number().int().optional(),
+  panelId: z.coerce.number().int().optional(),
+  prefix: z.string().trim().optional(),
+});
+
+export const auditEventListQuerySchema = z.object({
+  ...listQueryFields,
+  ...dateRangeFields,
+  sort: z.enum(["createdAt"]).default("createdAt"),
+  entityType: z.enum(AUDIT_ENTITY_TYPES).optional(),
+  entityId: z.coerce.number().int().optional(),
+  action: z.enum(AUDIT_ACTIONS).optional(),
+  actorId: z.coerce.number().int().optional(),
+});
+
 // Types
 export type Country = typeof countries.$inferSelect;
 export type InsertCountry = z.infer<typeof insertCountrySchema>;
 export type User = typeof users.$inferSelect;
 export type InsertUser = z.infer<typeof insertUserSchema>;
+export type UpdateUser = z.infer<typeof updateUserSchema>;
+export type PublicUser = Omit<User, "password" | "totpSecret" | "totpLastStep">;
+// The signed-in user as the client sees it, with what their role allows.
+export type CurrentUser = PublicUser & {
+  permissions: Permission[];
+  // Their role requires two-factor and they haven't set it up yet.
+  twoFactorSetupRequired: boolean;
+};
+// Returned by login instead of a session when the user has two-factor on.
+export interface TwoFactorChallenge {
+  twoFactorRequired: true;
+  challengeToken: string;
+}
+export interface TwoFactorSetup {
+  secret: string;
+  otpauthUrl: string;
+  qrCode: string;
+}
+export type Role = typeof roles.$inferSelect;
+export type UserSession = typeof userSessions.$inferSelect;
+export type InsertUserSession = typeof userSessions.$inferInsert;
+export type PublicUserSession = Omit<UserSession, "refreshTokenHash" | "previousRefreshTokenHash">;
+export type InsertRole = z.infer<typeof insertRoleSchema>;
+export type UpdateRole = z.infer<typeof updateRoleSchema>;
+export type LoginCredentials = z.infer<typeof loginSchema>;
+export type ChangePassword = z.infer<typeof changePasswordSchema>;
 export type Machine = typeof machines.$inferSelect;
 export type InsertMachine = z.infer<typeof insertMachineSchema>;
 export type Panel = typeof panels.$inferSelect;
 export type InsertPanel = z.infer<typeof insertPanelSchema>;
+// The fields pickers and name lookups need, for the whole catalog at once.
+export type MachineLookup = Pick<Machine, "id" | "name" | "productCode" | "serialFormat" | "checkDigit">;
+export type PanelLookup = Pick<Panel, "id" | "name" | "panelCode" | "kind" | "serialised" | "serialFormat" | "checkDigit">;
+export type MachinePanel = typeof machinePanels.$inferSelect;
+export type MachinePanelWithPanel = MachinePanel & { panel: Panel };
+export type MachinePanelsInput = z.infer<typeof machinePanelsSchema>;
+export type PanelPart = typeof panelParts.$inferSelect;
+export type PanelPartWithPanel = PanelPart & { panel: Panel };
+export type PanelPartsInput = z.infer<typeof panelPartsSchema>;
 export type Order = typeof orders.$inferSelect;
 export type InsertOrder = z.infer<typeof insertOrderSchema>;
+// Any column of an existing order, including the lifecycle ones only the
+// server sets.
+export type OrderChanges = Partial<Omit<typeof orders.$inferInsert, "legacyMachines">>;
+export type OrderLine = typeof orderLines.$inferSelect;
+export type OrderLineInput = z.infer<typeof orderLineSchema>;
 export type Serial = typeof serials.$inferSelect;
 export type InsertSerial = z.infer<typeof insertSerialSchema>;
+export type SerialStatusChange = z.infer<typeof serialStatusChangeSchema>;
+export type SerialDecision = z.infer<typeof serialDecisionSchema>;
+export type UpdateOrder = z.infer<typeof updateOrderSchema>;
+export type OrderTransition = z.infer<typeof orderTransitionSchema>;
+export type SerialSequence = typeof serialSequences.$inferSelect;
+export type SerialReservation = typeof serialReservations.$inferSelect;
+export type InsertSerialReservation = z.infer<typeof insertSerialReservationSchema>;
+export type UserListQuery = z.infer<typeof userListQuerySchema>;
+export type MachineListQuery = z.infer<typeof machineListQuerySchema>;
+export type PanelListQuery = z.infer<typeof panelListQuerySchema>;
+export type OrderListQuery = z.infer<typeof orderListQuerySchema>;
+export type SerialListQuery = z.infer<typeof serialListQuerySchema>;
+export type AuditEventListQuery = z.infer<typeof auditEventListQuerySchema>;
+export type AuditEvent = typeof auditEvents.$inferSelect;
+export type InsertAuditEvent = typeof auditEvents.$inferInsert;
+export type AuditEventWithActor = AuditEvent & { actor: Pick<User, "id" | "username"> | null };
+
+export interface Page<T> {
+  items: T[];
+  total: number;
+  page: number;
+  pageSize: number;
+}
+
+export type OrderWithLines = Order & { lines: OrderLine[] };
+export type OrderWithSerials = OrderWithLines & { serials: Serial[] };
+export type OrderWithCountry = OrderWithLines & { country: Country };
+export type OrderWithRelations = OrderWithCountry & { serials: Serial[] };
+export type SerialWithRelations = Serial & { machine: Machine | null; panel: Panel | null; order: Order };
+
+// Serials issued and retired by an order update.
+export interface OrderSerialChanges {
+  issued: Serial[];
+  voided: Serial[];
+  scrapped: Serial[];
+}
+
+export type UpdatedOrder = OrderWithRelations & { serialChanges: OrderSerialChanges };
+
+// A serial that creating an order right now would issue. `parent` is the
+// index of the preview serial it would be built into.
+export interface PreviewSerial {
+  machineId?: number;
+  panelId?: number;
+  serialNumber: string;
+  parent?: number;
+}
+
+// A machine or panel whose quantity went down, with the active serials the
+// user has to pick `count` of to void or scrap.
+export interface PendingSerialDecision {
+  machineId?: number;
+  panelId?: number;
+  count: number;
+  candidates: Serial[];
+}
@@ -0,0 +1,65 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { DEFAULT_SERIAL_FORMAT, renderSerialNumber, sequenceLimit, sequencePeriod, validateSerialFormat } from "./serialFormat";
+
+const context = {
+  code: "BMM",
+  date: new Date(2026, 9, 19),
+  countryCode: "AU",
+  orderId: 42,
+  sequence: 7,
+};
+
+test("renders every token", () => {
+  assert.equal(
+    renderSerialNumber("{code}-{YYYY}{YY}{MM}-{country}-{order}-{seq:4}", context),
+    "BMM-20262610-AU-42-0007",
+  );
+});
+
+test("pads the sequence to its width", () => {
+  assert.equal(renderSerialNumber("{code}{seq:3}", { ...context, sequence: 1 }), "BMM001");
+  assert.equal(renderSerialNumber("{code}{seq:3}", { ...context, sequence: 999 }), "BMM999");
+});
+
+test("renders sequences above 10^width in full", () => {
+  assert.equal(renderSerialNumber("{code}{seq:3}", { ...context, sequence: 1000 }), "BMM1000");
+  assert.equal(renderSerialNumber("{code}-{seq:1}", { ...context, sequence: 123456 }), "BMM-123456");
+  assert.equal(renderSerialNumber("{code}-{seq}", { ...context, sequence: 10 ** 9 + 1 }), "BMM-1000000001");
+});
+
+test("keys counting periods by reset policy", () => {
+  assert.equal(sequencePeriod("never", context.date), "");
+  assert.equal(sequencePeriod("yearly", context.date), "2026");
+  assert.equal(sequencePeriod("monthly", context.date), "2026-10");
+});
+
+test("rejects formats that can't be rendered", () => {
+  assert.equal(validateSerialFormat("{code}{seq:3}"), null);
+  assert.match(validateSerialFormat("{code}")!, /exactly one \{seq\}/);
+  assert.match(validateSerialFormat("{code}{seq:10}")!, /between 1 and 9/);
+  assert.match(validateSerialFormat("{code}{lot}{seq}")!, /Unknown token/);
+  assert.match(validateSerialFormat("{code}{seq:3}", "yearly")!, /yearly reset/);
+  assert.match(validateSerialFormat("{code}{YY}{seq:3}", "monthly")!, /monthly reset/);
+});
+
+test("requires {code} with a separator or fixed-width tokens beside it", () => {
+  assert.match(validateSerialFormat("{country}{seq:5}")!, /must contain \{code\}/);
+  assert.match(validateSerialFormat("{code}{seq}")!, /separator/);
+  assert.match(validateSerialFormat("{code}{order}-{seq:3}")!, /separator/);
+  assert.match(validateSerialFormat("{seq}{code}-X")!, /separator/);
+  assert.equal(validateSerialFormat("{code}-{seq}"), null);
+  assert.equal(validateSerialFormat("{country}/{code}.{order}-{seq}"), null);
+  assert.equal(validateSerialFormat("{code}{YY}{MM}{seq:4}", "monthly"), null);
+  assert.equal(validateSerialFormat("{seq:5}{code}"), null);
+});
+
+test("limits sequences that sit beside {code} without a separator and don't end the serial", () => {
+  assert.equal(sequenceLimit("{code}{seq:3}{YY}"), 999);
+  assert.equal(sequenceLimit("{YY}{code}{seq:4}{MM}"), 9999);
+  assert.equal(sequenceLimit("{seq:2}{code}-{YY}"), 99);
+  assert.equal(sequenceLimit(DEFAULT_SERIAL_FORMAT), null);
+  assert.equal(sequenceLimit("{code}{YY}{seq:4}"), null);
+  assert.equal(sequenceLimit("{code}-{seq:3}"), null);
+  assert.equal(sequenceLimit("{YY}{code}_{seq}"), null);
+});
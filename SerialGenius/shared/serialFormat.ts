@@ -0,0 +1,172 @@
+// Serial number templates, shared so the server and the catalog dialogs render
+// identical numbers. A template mixes literal characters with tokens:
+//
+//   {code}     machine product code / panel code
+//   {YYYY}     four-digit year the serial is issued
+//   {YY}       two-digit year
+//   {MM}       two-digit month
+//   {country}  code of the order's country
+//   {order}    order id
+//   {seq:N}    sequence zero-padded to N digits ({seq} alone is unpadded)
+//
+// e.g. "{code}-{YY}{MM}-{seq:4}" renders BMM-2610-0042.
+//
+// The sequence is counted per code and, depending on the reset policy, per
+// calendar year or month, so "{code}-{YYYY}-{seq:4}" with a yearly reset
+// issues BMM-2026-0001 again as BMM-2027-0001.
+//
+// Every template contains {code}, and on each side of it there is either a
+// separator or nothing but fixed-width tokens. Otherwise codes A1 and A11
+// under "{code}{seq}" would both render A11023. A sequence on a fixed-width
+// side can't grow past its width when something follows it (see sequenceLimit).
+
+export const DEFAULT_SERIAL_FORMAT = "{code}{seq:3}";
+
+export const SEQUENCE_RESET_POLICIES = ["never", "yearly", "monthly"] as const;
+export type SequenceResetPolicy = typeof SEQUENCE_RESET_POLICIES[number];
+
+export const SERIAL_FORMAT_TOKENS = ["code", "YYYY", "YY", "MM", "country", "order", "seq"] as const;
+
+export interface SerialFormatContext {
+  code: string;
+  date: Date;
+  countryCode: string;
+  orderId: number;
+  sequence: number;
+}
+
+const TOKEN_PATTERN = /\{([A-Za-z]+)(?::(\d+))?\}/g;
+const LITERAL_PATTERN = /^[A-Za-z0-9\-_./]*$/;
+const MAX_SEQUENCE_WIDTH = 9;
+const SEPARATORS = "-_./";
+const FIXED_WIDTH_TOKENS = ["YYYY", "YY", "MM"];
+
+// The templates on either side of the first {code}.
+function splitAtCode(format: string): [string, string] {
+  const index = format.indexOf("{code}");
+  return [format.slice(0, index), format.slice(index + "{code}".length)];
+}
+
+const isDelimited = (edge: string | undefined) => edge === undefined || SEPARATORS.includes(edge);
+
+const isFixedWidth = (side: string) => Array.from(side.matchAll(TOKEN_PATTERN))
+  .every(([, name, width]) => FIXED_WIDTH_TOKENS.includes(name) || (name === "seq" && width !== undefined));
+
+// Returns a description of what is wrong with the template, or null when it
+// can be rendered. A counter that resets must have the period in the serial,
+// otherwise the restarted sequence would repeat earlier numbers.
+export function validateSerialFormat(format: string, reset: SequenceResetPolicy = "never"): string | null {
+  let sequenceTokens = 0;
+  const used = new Set<string>();
+
+  for (const [, name, width] of Array.from(format.matchAll(TOKEN_PATTERN))) {
+    if (!(SERIAL_FORMAT_TOKENS as readonly string[]).includes(name)) {
+      return `Unknown token {${name}}`;
+    }
+    if (width !== undefined) {
+      if (name !== "seq") {
+        return `Only {seq} takes a width, found {${name}:${width}}`;
+      }
+      const digits = Number(width);
+      if (digits < 1 || digits > MAX_SEQUENCE_WIDTH) {
+        return `Sequence width must be between 1 and ${MAX_SEQUENCE_WIDTH}`;
+      }
+    }
+    if (name === "seq") sequenceTokens++;
+    used.add(name);
+  }
+
+  if (sequenceTokens !== 1) {
+    return "Format must contain exactly one {seq} token";
+  }
+  if (!used.has("code")) {
+    return "Format must contain {code}";
+  }
+
+  const [before, after] = splitAtCode(format);
+  if (!(isDelimited(before.at(-1)) || isFixedWidth(before)) || !(isDelimited(after.at(0)) || isFixedWidth(after))) {
+    return "{code} needs a separator (- _ . /) next to it, or only fixed-width tokens such as {YY} and {seq:4}";
+  }
+
+  const hasYear = used.has("YYYY") || used.has("YY");
+  if (reset === "yearly" && !hasYear) {
+    return "A yearly reset needs {YYYY} or {YY} in the format";
+  }
+  if (reset === "monthly" && !(hasYear && used.has("MM"))) {
+    return "A monthly reset needs a year token and {MM} in the format";
+  }
+
+  const literals = format.replace(TOKEN_PATTERN, "");
+  if (!LITERAL_PATTERN.test(literals)) {
+    return "Only letters, digits and - _ . / are allowed outside tokens";
+  }
+
+  return null;
+}
+
+export function renderSerialNumber(format: string, context: SerialFormatContext): string {
+  const year = context.date.getFullYear().toString();
+
+  return format.replace(TOKEN_PATTERN, (_match, name: string, width?: string) => {
+    switch (name) {
+      case "code": return context.code;
+      case "YYYY": return year;
+      case "YY": return year.slice(-2);
+      case "MM": return (context.date.getMonth() + 1).toString().padStart(2, "0");
+      case "country": return context.countryCode;
+      case "order": return context.orderId.toString();
+      case "seq": return context.sequence.toString().padStart(Number(width ?? 0), "0");
+      default: return "";
+    }
+  });
+}
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\/-]/g, "\\$&");
+
+// Matches every number the template renders for the code, whatever the date,
+// country, order and sequence, followed by `suffix` (e.g. a check digit).
+export function serialNumberPattern(format: string, code: string, suffix = ""): RegExp {
+  let pattern = "";
+  let last = 0;
+  for (const match of Array.from(format.matchAll(TOKEN_PATTERN))) {
+    pattern += escapeRegExp(format.slice(last, match.index));
+    last = match.index! + match[0].length;
+    const [, name, width] = match;
+    switch (name) {
+      case "code": pattern += escapeRegExp(code); break;
+      case "YYYY": pattern += "\\d{4}"; break;
+      case "YY":
+      case "MM": pattern += "\\d{2}"; break;
+      case "country": pattern += "[A-Z0-9]+"; break;
+      case "order": pattern += "\\d+"; break;
+      case "seq": pattern += width === undefined ? "\\d+" : `\\d{${width},}`; break;
+    }
+  }
+  pattern += escapeRegExp(format.slice(last));
+  return new RegExp(`^${pattern}${suffix}$`, "i");
+}
+
+// Largest sequence a valid template can render, or null when there is no
+// limit: a padded sequence beside {code} without a separator can't outgrow
+// its width when the rest of the serial follows it, or the extra digit would
+// shift what comes after. One that ends the serial, as in the default
+// "{code}{seq:3}", grows in place (BMM999, BMM1000); the allocator skips a
+// number a longer code has already rendered.
+export function sequenceLimit(format: string): number | null {
+  const [before, after] = splitAtCode(format);
+  const side = before.includes("{seq") ? before : after;
+  const width = side.match(/\{seq:(\d+)\}/)?.[1];
+  const delimited = side === before ? isDelimited(before.at(-1)) : isDelimited(after.at(0));
+  const trailing = /\{seq(?::\d+)?\}$/.test(format);
+  return width === undefined || delimited || trailing ? null : 10 ** Number(width) - 1;
+}
+
+// Key of the counting period a date falls into; "" for sequences that never reset.
+export function sequencePeriod(reset: SequenceResetPolicy, date: Date): string {
+  const year = date.getFullYear().toString();
+  switch (reset) {
+    case "yearly": return year;
+    case "monthly": return `${year}-${(date.getMonth() + 1).toString().padStart(2, "0")}`;
+    default: return "";
+  }
+}